@@ -1,5 +1,6 @@
 export interface PluginConfig {
   enabled: boolean;
+  backend: SqsBackendType;
   endpoint?: string;
   region: string;
   accessKeyId: string;
@@ -14,26 +15,91 @@ export interface PluginConfig {
   debug: boolean;
   skipCacheInvalidation: boolean;
   lambdaTimeout: number;
+  invocationMode: InvocationMode;
+  shutdownTimeout: number;
+  releaseOnShutdown: boolean;
+  dlqMode: DlqMode;
+  purgeOnStart: boolean;
+  teardown: boolean;
+  controlApi: ControlApiConfig;
+  sqsServer: SqsServerConfig;
+  localstack: LocalStackConfig;
+  circuitBreakerThreshold: number;
+  maxErrorBackoff: number;
+  healthCheckInterval: number;
+  readinessTimeout: number;
+  readinessInterval: number;
   queues: QueueConfig[];
 }
 
+export type InvocationMode = 'single' | 'batch';
+
+// Where the queues live: an SQS endpoint such as LocalStack, or the plugin's own memory
+export type SqsBackendType = 'localstack' | 'memory';
+
+// How failed messages reach the DLQ: the queue's RedrivePolicy, a verbatim
+// copy sent by the plugin, or the legacy JSON envelope
+export type DlqMode = 'native' | 'copy' | 'envelope';
+
 export interface QueueConfig {
   queueName: string;
   handler: string;
+  functionName?: string;
   enabled?: boolean;
   batchSize?: number;
   maxConcurrentPolls?: number;
   visibilityTimeout?: number;
   waitTimeSeconds?: number;
+  invocationMode?: InvocationMode;
+  maximumBatchingWindow?: number;
+  maximumConcurrency?: number;
+  contentBasedDeduplication?: boolean;
+  retry?: RetryPolicy;
+  // Parsed and validated when the configuration is loaded
+  filterPatterns?: Record<string, any>[];
+  functionResponseType?: 'ReportBatchItemFailures';
   dlq?: {
     enabled: boolean;
     maxReceiveCount?: number;
     queueName?: string;
+    mode?: DlqMode;
   };
 }
 
+export interface ControlApiConfig {
+  enabled: boolean;
+  port: number;
+  host: string;
+}
+
+export interface SqsServerConfig {
+  enabled: boolean;
+  port: number;
+  host: string;
+}
+
+// A LocalStack container the plugin starts for the offline session
+export interface LocalStackConfig {
+  autoStart: boolean;
+  image: string;
+  tag: string;
+  port: number;
+  services: string;
+  volume?: string;
+  containerName: string;
+  startTimeout: number;
+}
+
+export interface RetryPolicy {
+  strategy: 'fixed' | 'linear' | 'exponential';
+  baseDelay: number;
+  maxDelay?: number;
+  jitter?: boolean;
+}
+
 export const defaultConfig: PluginConfig = {
   enabled: true,
+  backend: 'localstack',
   region: 'us-east-1',
   accessKeyId: 'test',
   secretAccessKey: 'test',
@@ -47,6 +113,36 @@ export const defaultConfig: PluginConfig = {
   debug: false,
   skipCacheInvalidation: false,
   lambdaTimeout: 30000,
+  invocationMode: 'single',
+  shutdownTimeout: 10000,
+  releaseOnShutdown: true,
+  dlqMode: 'native',
+  purgeOnStart: false,
+  teardown: false,
+  controlApi: {
+    enabled: false,
+    port: 4588,
+    host: '127.0.0.1',
+  },
+  sqsServer: {
+    enabled: false,
+    port: 9324,
+    host: '127.0.0.1',
+  },
+  localstack: {
+    autoStart: false,
+    image: 'localstack/localstack',
+    tag: 'latest',
+    port: 4566,
+    services: 'sqs',
+    containerName: 'serverless-offline-sqs-localstack',
+    startTimeout: 60000,
+  },
+  circuitBreakerThreshold: 5,
+  maxErrorBackoff: 30000,
+  healthCheckInterval: 5000,
+  readinessTimeout: 60000,
+  readinessInterval: 1000,
   queues: [],
 };
 
@@ -1,22 +1,68 @@
 import Joi from 'joi';
+import { parseFilterPatterns } from '../sqs/filter';
 
 const queueConfigSchema = Joi.object({
   queueName: Joi.string().required(),
   handler: Joi.string().required(),
+  functionName: Joi.string().optional(),
   enabled: Joi.boolean().default(true),
-  batchSize: Joi.number().integer().min(1).max(10).default(1),
+  batchSize: Joi.number().integer().min(1).default(1).when('maximumBatchingWindow', {
+    is: Joi.number().greater(0).required(),
+    then: Joi.number().max(10000),
+    otherwise: Joi.number().max(10),
+  }),
   maxConcurrentPolls: Joi.number().integer().min(1).default(3),
   visibilityTimeout: Joi.number().integer().min(0).max(43200).default(30),
   waitTimeSeconds: Joi.number().integer().min(0).max(20).default(20),
+  invocationMode: Joi.string().valid('single', 'batch').optional(),
+  // Lambda does not support batching windows on FIFO event sources
+  maximumBatchingWindow: Joi.number().integer().min(0).max(300).optional().when('queueName', {
+    is: Joi.string().pattern(/\.fifo$/),
+    then: Joi.forbidden(),
+  }),
+  maximumConcurrency: Joi.number().integer().min(2).max(1000).optional(),
+  contentBasedDeduplication: Joi.boolean().optional(),
+  retry: Joi.object({
+    strategy: Joi.string().valid('fixed', 'linear', 'exponential').default('exponential'),
+    baseDelay: Joi.number().integer().min(0).max(43200).required(),
+    maxDelay: Joi.number().integer().min(0).max(43200).optional(),
+    jitter: Joi.boolean().default(false),
+  }).optional(),
+  // Parsed once here, so a bad pattern fails startup instead of every poll
+  filterPatterns: Joi.array().items(Joi.object(), Joi.string()).optional().custom((value, helpers) => {
+    try {
+      return parseFilterPatterns(value);
+    } catch (error: any) {
+      return helpers.error('filterPatterns.invalid', {
+        queueName: helpers.state.ancestors[0]?.queueName,
+        reason: error.message,
+      });
+    }
+  }).messages({
+    'filterPatterns.invalid': '{#label} of queue {#queueName} is invalid: {#reason}',
+  }),
+  functionResponseType: Joi.string().valid('ReportBatchItemFailures').optional(),
   dlq: Joi.object({
     enabled: Joi.boolean().required(),
     maxReceiveCount: Joi.number().integer().min(1).default(3),
     queueName: Joi.string().optional(),
+    mode: Joi.string().valid('native', 'copy', 'envelope').optional(),
   }).optional(),
 });
 
 export const configSchema = Joi.object({
   enabled: Joi.boolean().default(true),
+  // Enabling the SQS server implies the memory backend, which it serves
+  backend: Joi.string()
+    .valid('localstack', 'memory')
+    .default((parent: any) => (parent.sqsServer?.enabled ? 'memory' : 'localstack'))
+    .when('sqsServer.enabled', {
+      is: true,
+      then: Joi.invalid('localstack').messages({
+        'any.only': '"backend" must be memory when sqsServer is enabled',
+        'any.invalid': '"backend" must be memory when sqsServer is enabled',
+      }),
+    }),
   endpoint: Joi.string().uri().optional(),
   region: Joi.string().default('us-east-1'),
   accessKeyId: Joi.string().default('test'),
@@ -31,6 +77,37 @@ export const configSchema = Joi.object({
   debug: Joi.boolean().default(false),
   skipCacheInvalidation: Joi.boolean().default(false),
   lambdaTimeout: Joi.number().integer().min(1000).max(900000).default(30000),
+  invocationMode: Joi.string().valid('single', 'batch').default('single'),
+  shutdownTimeout: Joi.number().integer().min(0).default(10000),
+  releaseOnShutdown: Joi.boolean().default(true),
+  dlqMode: Joi.string().valid('native', 'copy', 'envelope').default('native'),
+  purgeOnStart: Joi.boolean().default(false),
+  teardown: Joi.boolean().default(false),
+  controlApi: Joi.object({
+    enabled: Joi.boolean().default(false),
+    port: Joi.number().integer().min(0).max(65535).default(4588),
+    host: Joi.string().default('127.0.0.1'),
+  }).default(),
+  sqsServer: Joi.object({
+    enabled: Joi.boolean().default(false),
+    port: Joi.number().integer().min(0).max(65535).default(9324),
+    host: Joi.string().default('127.0.0.1'),
+  }).default(),
+  localstack: Joi.object({
+    autoStart: Joi.boolean().default(false),
+    image: Joi.string().default('localstack/localstack'),
+    tag: Joi.string().default('latest'),
+    port: Joi.number().integer().min(1).max(65535).default(4566),
+    services: Joi.string().default('sqs'),
+    volume: Joi.string().optional(),
+    containerName: Joi.string().default('serverless-offline-sqs-localstack'),
+    startTimeout: Joi.number().integer().min(1000).default(60000),
+  }).default(),
+  circuitBreakerThreshold: Joi.number().integer().min(1).default(5),
+  maxErrorBackoff: Joi.number().integer().min(100).default(30000),
+  healthCheckInterval: Joi.number().integer().min(100).default(5000),
+  readinessTimeout: Joi.number().integer().min(0).default(60000),
+  readinessInterval: Joi.number().integer().min(100).default(1000),
   queues: Joi.array().items(queueConfigSchema).default([]),
 });
 
@@ -45,4 +122,20 @@ export const validateConfig = (config: any) => {
   }
 
   return value;
-};
\ No newline at end of file
+};
+/**
+ * Validates a queue configuration added at runtime, applying the same
+ * defaults and filter pattern parsing as the plugin configuration.
+ */
+export const validateQueueConfig = (queueConfig: any) => {
+  const { error, value } = queueConfigSchema.validate(queueConfig, {
+    allowUnknown: true,
+    stripUnknown: false,
+  });
+
+  if (error) {
+    throw new Error(`Invalid queue configuration: ${error.details.map(d => d.message).join(', ')}`);
+  }
+
+  return value;
+};
@@ -1,10 +1,27 @@
-import { SqsClientWrapper } from './sqs/client';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { Message } from '@aws-sdk/client-sqs';
+import { SqsClientWrapper, OutgoingMessage } from './sqs/client';
 import { QueueManager } from './sqs/queue-manager';
-import { MessagePoller } from './sqs/poller';
+import { InvocationRecord, MessagePoller } from './sqs/poller';
+import { ConnectionMonitor } from './sqs/connection-monitor';
+import { ReadinessProbe } from './sqs/readiness';
+import { MemorySqsBackend } from './sqs/memory-backend';
+import { DeadLetterRedriver, RedriveOptions, RedriveResult } from './sqs/redrive';
+import { PeekOptions, QueueInspector, QueueSummary } from './sqs/inspector';
 import { LambdaInvoker } from './lambda/invoker';
+import { DirectInvocationResult, DirectInvoker, isSqsEvent } from './lambda/direct-invoker';
+import { ServiceInfo, SQSEvent } from './lambda/event-builder';
+import { ControlApiServer } from './server/control-api';
+import { ControlApiClient } from './server/control-api-client';
+import { getSqsServerUrl, SqsServer } from './server/sqs-server';
+import { InvocationHistory } from './server/invocation-history';
 import { DockerDetector } from './utils/docker';
+import { LocalStackContainer } from './utils/localstack-container';
 import { createLogger, Logger } from './utils/logger';
-import { validateConfig } from './config/schema';
+import { parseMessageAttributes, parseMessageFile, readStream } from './utils/message-input';
+import { formatMessage, formatTable } from './utils/format';
+import { validateConfig, validateQueueConfig } from './config/schema';
 import { mergeConfig, PluginConfig, QueueConfig } from './config/defaults';
 
 export interface ServerlessInstance {
@@ -15,6 +32,8 @@ export interface ServerlessInstance {
       region?: string;
       stage?: string;
       runtime?: string;
+      timeout?: number;
+      memorySize?: number;
     };
     functions?: Record<string, any>;
     resources?: {
@@ -52,6 +71,19 @@ export interface ServerlessOptions {
   [key: string]: any;
 }
 
+const pollerTargetOptions = {
+  queue: {
+    usage: 'Name of the queue',
+    shortcut: 'q',
+    type: 'string',
+  },
+  function: {
+    usage: 'Name of the function subscribed to the queue',
+    shortcut: 'f',
+    type: 'string',
+  },
+};
+
 export default class ServerlessOfflineLocalstackSqsPlugin {
   public serverless: ServerlessInstance;
   public options: ServerlessOptions;
@@ -63,9 +95,21 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
   private sqsClient?: SqsClientWrapper;
   private queueManager?: QueueManager;
   private messagePoller?: MessagePoller;
+  private connectionMonitor?: ConnectionMonitor;
   private lambdaInvoker?: LambdaInvoker;
   private dockerDetector?: DockerDetector;
+  private localstackContainer?: LocalStackContainer;
+  // The LocalStack endpoint, when the queues live there
+  private endpoint?: string;
+  private controlApi?: ControlApiServer;
+  private sqsServer?: SqsServer;
+  // The AWS_ENDPOINT_URL_SQS value the plugin set for handlers, removed on cleanup
+  private exportedSqsEndpoint?: string;
+  // Set while `serverless offline` runs, as opposed to a one-off command
+  private offlineSession = false;
+  private invocationHistory = new InvocationHistory();
   private isInitialized = false;
+  private shutdownHandlersRegistered = false;
 
   constructor(serverless: ServerlessInstance, options: ServerlessOptions) {
     this.serverless = serverless;
@@ -79,10 +123,10 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
 
     // Set up plugin lifecycle hooks
     this.hooks = {
-      'before:offline:start:init': this.initialize.bind(this),
+      'before:offline:start:init': this.initializeSession.bind(this),
       'before:offline:start': this.start.bind(this),
       'after:offline:start': this.cleanup.bind(this),
-      'offline:start:init': this.initialize.bind(this),
+      'offline:start:init': this.initializeSession.bind(this),
       'offline:start': this.start.bind(this),
     };
 
@@ -100,15 +144,163 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
             usage: 'Stops polling SQS queues',
             lifecycleEvents: ['cleanup'],
           },
+          pause: {
+            usage: 'Pauses polling of a queue so messages accumulate',
+            lifecycleEvents: ['pause'],
+            options: pollerTargetOptions,
+          },
+          resume: {
+            usage: 'Resumes polling of a paused queue',
+            lifecycleEvents: ['resume'],
+            options: pollerTargetOptions,
+          },
+          add: {
+            usage: 'Starts polling a configured queue, or a new queue with --handler',
+            lifecycleEvents: ['add'],
+            options: {
+              ...pollerTargetOptions,
+              handler: {
+                usage: 'Handler for a queue that is not configured (e.g. "handlers/order.process")',
+                type: 'string',
+              },
+            },
+          },
+          remove: {
+            usage: 'Stops polling a queue and removes its poller',
+            lifecycleEvents: ['remove'],
+            options: pollerTargetOptions,
+          },
+          send: {
+            usage: 'Sends a message to a queue; the body comes from --body, --file or stdin',
+            lifecycleEvents: ['send'],
+            options: {
+              ...pollerTargetOptions,
+              body: {
+                usage: 'Message body',
+                shortcut: 'b',
+                type: 'string',
+              },
+              file: {
+                usage: 'File with the message body, or with many messages when used with --batch',
+                type: 'string',
+              },
+              batch: {
+                usage: 'Treat --file as a JSON array or NDJSON file of messages',
+                type: 'boolean',
+              },
+              attributes: {
+                usage: 'Message attributes as JSON (e.g. \'{"tenant":"acme"}\')',
+                type: 'string',
+              },
+              delay: {
+                usage: 'Delay in seconds before the message becomes visible',
+                type: 'string',
+              },
+              'group-id': {
+                usage: 'Message group ID (FIFO queues)',
+                type: 'string',
+              },
+              'dedup-id': {
+                usage: 'Message deduplication ID (FIFO queues)',
+                type: 'string',
+              },
+            },
+          },
+          invoke: {
+            usage: 'Runs a function\'s handler with a synthetic SQS event, without LocalStack',
+            lifecycleEvents: ['invoke'],
+            options: {
+              function: {
+                usage: 'Name of the function to invoke',
+                shortcut: 'f',
+                required: true,
+                type: 'string',
+              },
+              body: {
+                usage: 'Body of the single record in the event',
+                shortcut: 'b',
+                type: 'string',
+              },
+              file: {
+                usage: 'JSON file with an SQS event, or a JSON array or NDJSON file of messages',
+                type: 'string',
+              },
+              attributes: {
+                usage: 'Message attributes as JSON (e.g. \'{"tenant":"acme"}\')',
+                type: 'string',
+              },
+            },
+          },
+          purge: {
+            usage: 'Deletes all messages from a queue, from all queues (--all) or from all DLQs (--dlq)',
+            lifecycleEvents: ['purge'],
+            options: {
+              ...pollerTargetOptions,
+              all: {
+                usage: 'Purge every queue of the service, including DLQs',
+                type: 'boolean',
+              },
+              dlq: {
+                usage: 'Purge only the dead-letter queues',
+                type: 'boolean',
+              },
+            },
+          },
+          list: {
+            usage: 'Lists the queues with their approximate message counts, DLQ and handler',
+            lifecycleEvents: ['list'],
+          },
+          peek: {
+            usage: 'Shows messages in a queue without deleting them',
+            lifecycleEvents: ['peek'],
+            options: {
+              ...pollerTargetOptions,
+              count: {
+                usage: 'Number of messages to show (default: 10)',
+                shortcut: 'n',
+                type: 'string',
+              },
+              visibility: {
+                usage: 'Seconds the messages stay hidden from pollers (default: 0)',
+                type: 'string',
+              },
+            },
+          },
+          redrive: {
+            usage: 'Moves messages from a queue\'s dead-letter queue back to the queue',
+            lifecycleEvents: ['redrive'],
+            options: {
+              ...pollerTargetOptions,
+              count: {
+                usage: 'Number of messages to move (default: all)',
+                shortcut: 'n',
+                type: 'string',
+              },
+              rate: {
+                usage: 'Maximum messages moved per second (default: unlimited)',
+                type: 'string',
+              },
+            },
+          },
         },
       },
     };
 
     // Add hooks for custom commands
-    this.hooks['sqs-offline:start:init'] = this.initialize.bind(this);
-    this.hooks['sqs-offline:start:create'] = this.createQueues.bind(this);
-    this.hooks['sqs-offline:start:poll'] = this.startPolling.bind(this);
+    this.hooks['sqs-offline:start:init'] = this.initializeSession.bind(this);
+    this.hooks['sqs-offline:start:create'] = this.prepareQueues.bind(this);
+    this.hooks['sqs-offline:start:poll'] = this.startServices.bind(this);
     this.hooks['sqs-offline:stop:cleanup'] = this.cleanup.bind(this);
+    this.hooks['sqs-offline:pause:pause'] = this.pauseFromOptions.bind(this);
+    this.hooks['sqs-offline:resume:resume'] = this.resumeFromOptions.bind(this);
+    this.hooks['sqs-offline:add:add'] = this.addFromOptions.bind(this);
+    this.hooks['sqs-offline:remove:remove'] = this.removeFromOptions.bind(this);
+    this.hooks['sqs-offline:send:send'] = this.sendFromOptions.bind(this);
+    this.hooks['sqs-offline:invoke:invoke'] = this.invokeFromOptions.bind(this);
+    this.hooks['sqs-offline:purge:purge'] = this.purgeFromOptions.bind(this);
+    this.hooks['sqs-offline:list:list'] = this.listFromOptions.bind(this);
+    this.hooks['sqs-offline:peek:peek'] = this.peekFromOptions.bind(this);
+    this.hooks['sqs-offline:redrive:redrive'] = this.redriveFromOptions.bind(this);
 
     this.logger.debug('Plugin initialized');
   }
@@ -169,42 +361,101 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
 
   private parseSqsEvent(functionName: string, functionDef: any, sqsEvent: any): QueueConfig | null {
     try {
-      let queueName: string;
-      let batchSize = 1;
+      let queueName: string | null;
 
       if (typeof sqsEvent === 'string') {
         // Simple ARN format: arn:aws:sqs:region:account:queueName
-        const arnParts = sqsEvent.split(':');
-        queueName = arnParts[arnParts.length - 1];
+        queueName = this.resolveQueueNameFromArn(sqsEvent);
       } else if (typeof sqsEvent === 'object') {
         if (sqsEvent.arn) {
-          const arnParts = sqsEvent.arn.split(':');
-          queueName = arnParts[arnParts.length - 1];
+          queueName = this.resolveQueueNameFromArn(sqsEvent.arn);
         } else if (sqsEvent.queueName) {
           queueName = sqsEvent.queueName;
         } else {
           this.logger.warn(`Invalid SQS event configuration for function ${functionName}`);
           return null;
         }
-        
-        batchSize = sqsEvent.batchSize || 1;
       } else {
         this.logger.warn(`Unsupported SQS event format for function ${functionName}`);
         return null;
       }
 
-      return {
+      if (!queueName) {
+        this.logger.warn(`Could not resolve the queue ARN for function ${functionName}`);
+        return null;
+      }
+
+      const queueConfig: QueueConfig = {
         queueName,
         handler: functionDef.handler,
-        batchSize,
+        functionName,
+        batchSize: 1,
         enabled: true,
       };
+
+      if (typeof sqsEvent === 'object') {
+        // Options documented for Serverless `sqs` events; validated by the config schema
+        const {
+          batchSize,
+          enabled,
+          maximumBatchingWindow,
+          maximumConcurrency,
+          functionResponseType,
+          filterPatterns,
+        } = sqsEvent;
+
+        if (batchSize !== undefined) queueConfig.batchSize = batchSize;
+        if (enabled !== undefined) queueConfig.enabled = enabled;
+        if (maximumBatchingWindow !== undefined) queueConfig.maximumBatchingWindow = maximumBatchingWindow;
+        if (maximumConcurrency !== undefined) queueConfig.maximumConcurrency = maximumConcurrency;
+        if (functionResponseType !== undefined) queueConfig.functionResponseType = functionResponseType;
+        if (filterPatterns !== undefined) queueConfig.filterPatterns = filterPatterns;
+      }
+
+      return queueConfig;
     } catch (error: any) {
       this.logger.warn(`Failed to parse SQS event for function ${functionName}: ${error.message}`);
       return null;
     }
   }
 
+  private resolveQueueNameFromArn(arn: any): string | null {
+    if (typeof arn === 'string') {
+      const arnParts = arn.split(':');
+      return arnParts[arnParts.length - 1];
+    }
+
+    // { 'Fn::GetAtt': [LogicalId, 'Arn'] } pointing at a queue in resources
+    const getAtt = arn?.['Fn::GetAtt'];
+    if (Array.isArray(getAtt) && typeof getAtt[0] === 'string') {
+      const resource = this.serverless.service.resources?.Resources?.[getAtt[0]];
+      return resource?.Properties?.QueueName || getAtt[0];
+    }
+
+    return null;
+  }
+
+  // What the Lambda context needs to match the deployed functions
+  private getServiceInfo(): ServiceInfo {
+    const { service, provider, functions = {} } = this.serverless.service;
+    const functionSettings: ServiceInfo['functions'] = {};
+
+    for (const [functionName, functionDef] of Object.entries(functions)) {
+      if (typeof functionDef === 'object' && functionDef) {
+        const { name, timeout, memorySize } = functionDef;
+        functionSettings[functionName] = { name, timeout, memorySize };
+      }
+    }
+
+    return {
+      service,
+      stage: this.options.stage || provider?.stage || 'dev',
+      timeout: provider?.timeout,
+      memorySize: provider?.memorySize,
+      functions: functionSettings,
+    };
+  }
+
   private async initialize(): Promise<void> {
     if (this.isInitialized || !this.config.enabled) {
       return;
@@ -213,15 +464,40 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
     try {
       this.logger.info('Initializing serverless-offline-localstack-sqs plugin...');
 
-      // Initialize Docker detector
-      this.dockerDetector = new DockerDetector(this.logger);
-      
-      // Get LocalStack endpoint
-      const endpoint = await this.dockerDetector.getEndpointUrl(this.config.endpoint);
-      this.logger.info(`Using LocalStack endpoint: ${endpoint}`);
+      if (this.config.backend === 'memory' && (this.offlineSession || !this.config.sqsServer.enabled)) {
+        // Queues live in this process, so there is no endpoint to detect
+        this.logger.info('Using in-memory SQS backend');
+        const backend = new MemorySqsBackend({ region: this.config.region });
+        this.sqsClient = new SqsClientWrapper(this.config, this.logger, undefined, backend);
+
+        if (this.config.sqsServer.enabled) {
+          await this.startSqsServer(backend);
+        }
+      } else if (this.config.backend === 'memory') {
+        // Commands reach the queues of the running offline session through its SQS server
+        const endpoint = getSqsServerUrl(this.config.sqsServer);
+        this.logger.info(`Using the plugin's SQS server: ${endpoint}`);
+        this.sqsClient = new SqsClientWrapper(this.config, this.logger, endpoint);
+      } else if (this.offlineSession && this.config.localstack.autoStart && !this.config.endpoint) {
+        // Run LocalStack for the session instead of expecting one
+        const docker = await new DockerDetector(this.logger).getDockerClient();
+        this.localstackContainer = new LocalStackContainer(this.config.localstack, this.logger, docker);
+        this.setupGracefulShutdown();
+
+        this.endpoint = await this.localstackContainer.start();
+        this.logger.info(`Using LocalStack endpoint: ${this.endpoint}`);
+        this.sqsClient = new SqsClientWrapper(this.config, this.logger, this.endpoint);
+      } else {
+        // Initialize Docker detector
+        this.dockerDetector = new DockerDetector(this.logger);
 
-      // Initialize SQS client
-      this.sqsClient = new SqsClientWrapper(this.config, this.logger, endpoint);
+        // Get LocalStack endpoint
+        this.endpoint = await this.dockerDetector.getEndpointUrl(this.config.endpoint);
+        this.logger.info(`Using LocalStack endpoint: ${this.endpoint}`);
+
+        // Initialize SQS client
+        this.sqsClient = new SqsClientWrapper(this.config, this.logger, this.endpoint);
+      }
 
       // Initialize queue manager
       this.queueManager = new QueueManager(this.sqsClient, this.config, this.logger);
@@ -230,7 +506,8 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
       this.lambdaInvoker = new LambdaInvoker(
         this.serverless.config.servicePath,
         this.config,
-        this.logger
+        this.logger,
+        this.getServiceInfo()
       );
 
       // Initialize message poller
@@ -241,14 +518,52 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
         this.logger
       );
 
+      // Re-create the queues and restart pollers when LocalStack comes back
+      this.connectionMonitor = new ConnectionMonitor(this.sqsClient, this.config, this.logger);
+      this.messagePoller.onConnectionLost(() => {
+        this.connectionMonitor?.watch(() => this.recoverConnection());
+      });
+      this.messagePoller.onInvocation(record => this.invocationHistory.add(record));
+
       this.isInitialized = true;
       this.logger.info('Plugin initialization completed');
     } catch (error: any) {
       this.logger.error(`Initialization failed: ${error.message}`);
+
+      // Nothing else would stop the container the failed start left running
+      if (this.localstackContainer) {
+        await this.localstackContainer.stop();
+        this.localstackContainer = undefined;
+      }
       throw error;
     }
   }
 
+  private async startSqsServer(backend: MemorySqsBackend): Promise<void> {
+    this.sqsServer = new SqsServer(backend, this.config.sqsServer, this.logger);
+    await this.sqsServer.start();
+
+    const endpoint = this.sqsServer.getUrl();
+    backend.setBaseUrl(endpoint);
+
+    // Handlers' SDK clients pick the endpoint up from the environment
+    if (!process.env.AWS_ENDPOINT_URL_SQS) {
+      process.env.AWS_ENDPOINT_URL_SQS = endpoint;
+      this.exportedSqsEndpoint = endpoint;
+      this.logger.info(`Set AWS_ENDPOINT_URL_SQS=${endpoint} for handlers`);
+    }
+  }
+
+  // LocalStack may still be starting, e.g. when launched together with offline
+  private async waitForEndpoint(): Promise<void> {
+    if (!this.sqsClient || !this.endpoint) {
+      return;
+    }
+
+    const probe = new ReadinessProbe(this.sqsClient, this.config, this.logger);
+    await probe.waitUntilReady(this.endpoint);
+  }
+
   private async createQueues(): Promise<void> {
     if (!this.isInitialized || !this.queueManager) {
       return;
@@ -273,15 +588,43 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
     }
   }
 
+  private async recoverConnection(): Promise<void> {
+    await this.createQueues();
+    await this.messagePoller?.reconnect();
+  }
+
   private async start(): Promise<void> {
     if (!this.config.enabled) {
       this.logger.info('Plugin disabled, skipping SQS polling');
       return;
     }
 
+    await this.initializeSession();
+    await this.prepareQueues();
+    await this.startServices();
+  }
+
+  /**
+   * Initializes for a long-running session, `serverless offline` or
+   * `sqs-offline start`, which owns the in-memory queues, the SQS server and
+   * a LocalStack container it starts.
+   */
+  private async initializeSession(): Promise<void> {
+    this.offlineSession = true;
     await this.initialize();
+    await this.waitForEndpoint();
+  }
+
+  private async prepareQueues(): Promise<void> {
     await this.createQueues();
+    if (this.config.purgeOnStart && this.isInitialized) {
+      await this.purgeAllQueues();
+    }
+  }
+
+  private async startServices(): Promise<void> {
     await this.startPolling();
+    await this.startControlApi();
   }
 
   private async startPolling(): Promise<void> {
@@ -304,10 +647,36 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
     }
   }
 
+  private async startControlApi(): Promise<void> {
+    if (!this.config.controlApi.enabled) {
+      return;
+    }
+
+    this.controlApi = new ControlApiServer(this, this.config.controlApi, this.logger);
+    await this.controlApi.start();
+    this.setupGracefulShutdown();
+  }
+
   private setupGracefulShutdown(): void {
-    const shutdown = () => {
+    if (this.shutdownHandlersRegistered) {
+      return;
+    }
+    this.shutdownHandlersRegistered = true;
+
+    let shuttingDown = false;
+    const shutdown = async () => {
+      // A second signal skips the drain
+      if (shuttingDown) {
+        process.exit(1);
+      }
+      shuttingDown = true;
+
       this.logger.info('Shutting down SQS polling...');
-      this.cleanup();
+      try {
+        await this.cleanup();
+      } catch (error: any) {
+        this.logger.error(`Cleanup failed: ${error.message}`);
+      }
       process.exit(0);
     };
 
@@ -316,15 +685,51 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
   }
 
   private async cleanup(): Promise<void> {
+    this.connectionMonitor?.stop();
+
+    if (this.controlApi) {
+      await this.controlApi.stop();
+      this.controlApi = undefined;
+    }
+
     if (this.messagePoller?.isPolling()) {
       this.logger.info('Stopping SQS message polling...');
-      this.messagePoller.stopPolling();
+      await this.messagePoller.stopPolling();
+    }
+
+    if (this.config.teardown && this.queueManager) {
+      this.logger.info('Deleting queues created by the plugin...');
+      await this.queueManager.deleteCreatedQueues();
+    }
+
+    if (this.sqsServer) {
+      await this.sqsServer.stop();
+      this.sqsServer = undefined;
+    }
+
+    if (this.exportedSqsEndpoint && process.env.AWS_ENDPOINT_URL_SQS === this.exportedSqsEndpoint) {
+      delete process.env.AWS_ENDPOINT_URL_SQS;
+    }
+    this.exportedSqsEndpoint = undefined;
+
+    if (this.localstackContainer) {
+      await this.localstackContainer.stop();
+      this.localstackContainer = undefined;
     }
 
     if (this.lambdaInvoker) {
       this.lambdaInvoker.clearCache();
     }
 
+    // A later start, e.g. from `restart`, sets everything up again
+    this.connectionMonitor = undefined;
+    this.messagePoller = undefined;
+    this.queueManager = undefined;
+    this.sqsClient = undefined;
+    this.lambdaInvoker = undefined;
+    this.endpoint = undefined;
+    this.isInitialized = false;
+
     this.logger.info('Cleanup completed');
   }
 
@@ -337,6 +742,430 @@ export default class ServerlessOfflineLocalstackSqsPlugin {
     return this.messagePoller?.isPolling() || false;
   }
 
+  /**
+   * Returns the most recent handler invocations, newest first.
+   */
+  public getInvocations(limit?: number): InvocationRecord[] {
+    return this.invocationHistory.list(limit);
+  }
+
+  public async pauseQueue(target: string): Promise<string[]> {
+    const paused = await this.requirePoller().pausePoller(target);
+    this.logPollerChange('Paused', target, paused);
+    return paused;
+  }
+
+  public resumeQueue(target: string): string[] {
+    const resumed = this.requirePoller().resumePoller(target);
+    this.logPollerChange('Resumed', target, resumed);
+    return resumed;
+  }
+
+  /**
+   * Starts polling a queue by name or function name from the plugin
+   * configuration, or from an explicit queue configuration.
+   */
+  public async addQueue(target: string | QueueConfig): Promise<boolean> {
+    const poller = this.requirePoller();
+    const queueConfigs = typeof target === 'string' ? this.findQueueConfigs(target) : [validateQueueConfig(target)];
+
+    if (queueConfigs.length === 0) {
+      this.logger.warn(`No queue configuration found for: ${target}`);
+      return false;
+    }
+
+    const results = await Promise.all(queueConfigs.map(queueConfig => poller.addPoller(queueConfig)));
+    return results.every(Boolean);
+  }
+
+  public async removeQueue(target: string): Promise<string[]> {
+    const removed = await this.requirePoller().removePoller(target);
+    this.logPollerChange('Removed', target, removed);
+    return removed;
+  }
+
+  /**
+   * Sends a message to a queue, or to the queue a function is subscribed to.
+   * Returns the message ID.
+   */
+  public async sendMessage(target: string, message: OutgoingMessage): Promise<string | undefined> {
+    const { sqsClient, queueUrl } = await this.resolveQueueUrl(target);
+    const { body, attributes, ...options } = message;
+
+    const messageId = await sqsClient.sendMessage(queueUrl, body, attributes, options);
+    this.logger.info(`Sent message ${messageId} to ${target}`);
+    return messageId;
+  }
+
+  /**
+   * Sends messages to a queue with SendMessageBatch. Returns how many were
+   * accepted.
+   */
+  public async sendMessages(target: string, messages: OutgoingMessage[]): Promise<number> {
+    const { sqsClient, queueUrl } = await this.resolveQueueUrl(target);
+
+    const sent = await sqsClient.sendMessageBatch(queueUrl, messages);
+    this.logger.info(`Sent ${sent}/${messages.length} message(s) to ${target}`);
+    return sent;
+  }
+
+  /**
+   * Runs a function's handler with an SQS event built from the messages, or
+   * with the given event. Needs neither Docker nor an SQS endpoint.
+   */
+  public async invokeFunction(
+    functionName: string,
+    input: OutgoingMessage[] | SQSEvent
+  ): Promise<DirectInvocationResult> {
+    const functionDef = this.serverless.service.functions?.[functionName];
+    if (!functionDef || typeof functionDef !== 'object' || !functionDef.handler) {
+      throw new Error(`Function not found: ${functionName}`);
+    }
+
+    const lambdaInvoker = this.lambdaInvoker ??
+      new LambdaInvoker(this.serverless.config.servicePath, this.config, this.logger, this.getServiceInfo());
+    const queueName = this.findQueueConfigs(functionName)[0]?.queueName || `${functionName}-queue`;
+
+    return new DirectInvoker(lambdaInvoker, this.config).invoke(
+      {
+        handler: functionDef.handler,
+        functionName,
+        runtime: functionDef.runtime,
+      },
+      input,
+      queueName
+    );
+  }
+
+  /**
+   * Deletes all messages from a queue, or from the queue a function is
+   * subscribed to.
+   */
+  public async purgeQueue(target: string): Promise<void> {
+    const { sqsClient, queueUrl } = await this.resolveQueueUrl(target);
+    await sqsClient.purgeQueue(queueUrl);
+    this.logger.info(`Purged queue: ${target}`);
+  }
+
+  /**
+   * Deletes all messages from every configured and CloudFormation queue, or
+   * only from their DLQs. Returns the purged queue names.
+   */
+  public async purgeAllQueues(options: { dlqOnly?: boolean } = {}): Promise<string[]> {
+    await this.getSqsClient();
+    return this.queueManager!.purgeQueues(this.serverless.service.resources?.Resources, options.dlqOnly);
+  }
+
+  /**
+   * Returns every configured and CloudFormation queue with its approximate
+   * message counts.
+   */
+  public async listQueues(): Promise<QueueSummary[]> {
+    return (await this.getInspector()).listQueues(this.serverless.service.resources?.Resources);
+  }
+
+  /**
+   * Receives messages from a queue, or from the queue a function is
+   * subscribed to, without deleting them.
+   */
+  public async peekMessages(target: string, options: PeekOptions = {}): Promise<Message[]> {
+    const queueName = this.findQueueConfigs(target)[0]?.queueName || target;
+    return (await this.getInspector()).peek(queueName, options);
+  }
+
+  /**
+   * Moves messages from the dead-letter queue of a queue, or of the queue a
+   * function is subscribed to, back to that queue.
+   */
+  public async redrive(target: string, options: RedriveOptions = {}): Promise<RedriveResult> {
+    const sqsClient = await this.getSqsClient();
+    const queueConfig = this.findQueueConfigs(target)[0];
+    const queueName = queueConfig?.queueName || target;
+    const redriver = new DeadLetterRedriver(sqsClient, this.config, this.logger);
+
+    return redriver.redrive(queueName, options, queueConfig);
+  }
+
+  private async pauseFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    this.logPollerChange('Paused', target, await this.getControlApiClient().pausePollers(target));
+  }
+
+  private async resumeFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    this.logPollerChange('Resumed', target, await this.getControlApiClient().resumePollers(target));
+  }
+
+  private async addFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    await this.getControlApiClient().addPoller(target, this.options.handler);
+    this.logger.info(`Added poller for: ${target}`);
+  }
+
+  private async removeFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    this.logPollerChange('Removed', target, await this.getControlApiClient().removePollers(target));
+  }
+
+  private async sendFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    const defaults: Omit<OutgoingMessage, 'body'> = {
+      attributes: this.options.attributes ? parseMessageAttributes(this.parseJsonOption('attributes')) : undefined,
+      delaySeconds: this.parseNumberOption('delay', true),
+      messageGroupId: this.options['group-id'],
+      messageDeduplicationId: this.options['dedup-id'],
+    };
+
+    if (this.options.batch) {
+      if (!this.options.file) {
+        throw new Error('--batch requires a --file with the messages');
+      }
+      const messages = parseMessageFile(this.readOptionFile(this.options.file));
+      await this.sendMessages(target, messages.map(message => ({
+        ...message,
+        attributes: message.attributes ?? defaults.attributes,
+        delaySeconds: message.delaySeconds ?? defaults.delaySeconds,
+        messageGroupId: message.messageGroupId ?? defaults.messageGroupId,
+        messageDeduplicationId: message.messageDeduplicationId ?? defaults.messageDeduplicationId,
+      })));
+      return;
+    }
+
+    await this.sendMessage(target, { ...defaults, body: await this.readMessageBody() });
+  }
+
+  private async readMessageBody(): Promise<string> {
+    if (this.options.body !== undefined) {
+      return this.options.body;
+    }
+    if (this.options.file) {
+      return this.readOptionFile(this.options.file);
+    }
+    if (process.stdin.isTTY) {
+      throw new Error('Provide a message body with --body, --file or stdin');
+    }
+    return readStream(process.stdin);
+  }
+
+  private readOptionFile(file: string): string {
+    return readFileSync(resolve(this.serverless.config.servicePath, file), 'utf8');
+  }
+
+  private async resolveQueueUrl(target: string): Promise<{ sqsClient: SqsClientWrapper; queueUrl: string }> {
+    const sqsClient = await this.getSqsClient();
+    const queueName = this.findQueueConfigs(target)[0]?.queueName || target;
+    const { queueUrl } = await sqsClient.getQueueInfo(queueName);
+    return { sqsClient, queueUrl };
+  }
+
+  // Commands run outside `offline start`, so they initialize the client on demand
+  private async getSqsClient(): Promise<SqsClientWrapper> {
+    await this.initialize();
+    if (!this.sqsClient) {
+      throw new Error('The plugin is disabled');
+    }
+    if (!this.offlineSession) {
+      await this.requireSharedQueues(this.sqsClient);
+    }
+    return this.sqsClient;
+  }
+
+  // One-off commands run in a process of their own, which can't see the session's in-memory queues
+  private async requireSharedQueues(sqsClient: SqsClientWrapper): Promise<void> {
+    if (this.config.backend !== 'memory') {
+      return;
+    }
+
+    if (!this.config.sqsServer.enabled) {
+      throw new Error(
+        'The in-memory queues only exist inside the running offline session. ' +
+        'Enable sqsServer so that commands can reach them.'
+      );
+    }
+
+    if (!(await sqsClient.checkConnection())) {
+      throw new Error(
+        `No SQS server is listening at ${getSqsServerUrl(this.config.sqsServer)}. ` +
+        'Start `serverless offline` or `serverless sqs-offline start` first.'
+      );
+    }
+  }
+
+  private async invokeFromOptions(): Promise<void> {
+    const functionName = this.options.function;
+    if (!functionName) {
+      throw new Error('Specify a function with --function');
+    }
+
+    const invocation = await this.invokeFunction(functionName, this.readInvokeInput());
+
+    this.logger.info(`Invoked ${functionName} with ${invocation.event.Records.length} record(s) in ${invocation.duration}ms`);
+    if (invocation.logs.length > 0) {
+      this.logger.info('Logs:');
+      invocation.logs.forEach(line => this.logger.info(`  ${line}`));
+    }
+    if (invocation.result !== undefined) {
+      this.logger.info('Result:');
+      JSON.stringify(invocation.result, null, 2).split('\n').forEach(line => this.logger.info(`  ${line}`));
+    }
+    if (invocation.batchItemFailures.length > 0) {
+      this.logger.warn(`Batch item failures: ${invocation.batchItemFailures.join(', ')}`);
+    }
+    if (!invocation.success) {
+      throw new Error(`Handler failed: ${invocation.error?.message || 'Unknown error'}`);
+    }
+  }
+
+  private readInvokeInput(): OutgoingMessage[] | SQSEvent {
+    const attributes = this.options.attributes ? parseMessageAttributes(this.parseJsonOption('attributes')) : undefined;
+
+    if (this.options.body !== undefined) {
+      return [{ body: this.options.body, attributes }];
+    }
+    if (!this.options.file) {
+      throw new Error('Provide the event with --body or --file');
+    }
+
+    const content = this.readOptionFile(this.options.file);
+    try {
+      const parsed = JSON.parse(content);
+      if (isSqsEvent(parsed)) {
+        return parsed;
+      }
+    } catch {
+      // NDJSON is parsed line by line below
+    }
+
+    return parseMessageFile(content).map(message => ({ ...message, attributes: message.attributes ?? attributes }));
+  }
+
+  private async purgeFromOptions(): Promise<void> {
+    if (this.options.all || this.options.dlq) {
+      await this.purgeAllQueues({ dlqOnly: !this.options.all });
+      return;
+    }
+
+    if (!this.options.queue && !this.options.function) {
+      throw new Error('Specify a queue with --queue or a function with --function, or use --all or --dlq');
+    }
+    await this.purgeQueue(this.getPollerTarget());
+  }
+
+  private async listFromOptions(): Promise<void> {
+    const queues = await this.listQueues();
+    if (queues.length === 0) {
+      this.logger.info('No queues configured');
+      return;
+    }
+
+    const rows = queues.map(queue => [
+      queue.queueName,
+      queue.exists ? `${queue.visible}` : 'missing',
+      queue.exists ? `${queue.inFlight}` : '-',
+      queue.exists ? `${queue.delayed}` : '-',
+      queue.dlqName ? `${queue.dlqName} (${queue.dlqDepth ?? 'missing'})` : '-',
+      queue.handlers.join(', ') || '-',
+    ]);
+
+    for (const line of formatTable([['Queue', 'Visible', 'In flight', 'Delayed', 'DLQ', 'Handler'], ...rows])) {
+      this.logger.info(line);
+    }
+  }
+
+  private async peekFromOptions(): Promise<void> {
+    const target = this.getPollerTarget();
+    const messages = await this.peekMessages(target, {
+      count: this.parseNumberOption('count'),
+      visibilityTimeout: this.parseNumberOption('visibility', true),
+    });
+
+    if (messages.length === 0) {
+      this.logger.info(`No visible messages in ${target}`);
+      return;
+    }
+
+    for (const message of messages) {
+      for (const line of formatMessage(message)) {
+        this.logger.info(line);
+      }
+    }
+  }
+
+  private async getInspector(): Promise<QueueInspector> {
+    const sqsClient = await this.getSqsClient();
+    return new QueueInspector(sqsClient, this.queueManager!);
+  }
+
+  private async redriveFromOptions(): Promise<void> {
+    const count = this.parseNumberOption('count');
+    const rate = this.parseNumberOption('rate');
+
+    await this.redrive(this.getPollerTarget(), { count, rate });
+  }
+
+  private parseJsonOption(name: string): any {
+    try {
+      return JSON.parse(this.options[name]);
+    } catch (error: any) {
+      throw new Error(`--${name} must be valid JSON: ${error.message}`);
+    }
+  }
+
+  private parseNumberOption(name: string, allowZero = false): number | undefined {
+    const value = this.options[name];
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0 || (parsed === 0 && !allowZero)) {
+      throw new Error(`--${name} must be a ${allowZero ? 'non-negative' : 'positive'} number`);
+    }
+    return parsed;
+  }
+
+  private findQueueConfigs(target: string): QueueConfig[] {
+    return this.config.queues.filter(queue => queue.queueName === target || queue.functionName === target);
+  }
+
+  private requirePoller(): MessagePoller {
+    if (!this.messagePoller) {
+      throw new Error('SQS polling has not been initialized');
+    }
+    return this.messagePoller;
+  }
+
+  // The pollers run in the offline session, not in the process of the command
+  private getControlApiClient(): ControlApiClient {
+    if (!this.config.controlApi.enabled) {
+      throw new Error(
+        'Pollers are controlled through the control API of the running offline session. ' +
+        'Set controlApi.enabled to true and restart `serverless offline`.'
+      );
+    }
+    return new ControlApiClient(this.config.controlApi);
+  }
+
+  private getPollerTarget(): string {
+    const target = this.options.queue || this.options.function;
+    if (!target) {
+      throw new Error('Specify a queue with --queue or a function with --function');
+    }
+    return target;
+  }
+
+  private logPollerChange(action: string, target: string, pollerIds: string[]): void {
+    if (pollerIds.length === 0) {
+      this.logger.warn(`No matching pollers for: ${target}`);
+    } else {
+      this.logger.info(`${action} ${pollerIds.length} poller(s) for: ${target}`);
+    }
+  }
+
+  /**
+   * Stops the session, including a LocalStack container or SQS server it
+   * started, and starts it again.
+   */
   public async restart(): Promise<void> {
     await this.cleanup();
     await this.start();
@@ -0,0 +1,90 @@
+import { randomUUID } from 'crypto';
+import { Message } from '@aws-sdk/client-sqs';
+import { LambdaInvoker, FunctionDefinition } from './invoker';
+import { EventBuilder, SQSEvent } from './event-builder';
+import { OutgoingMessage } from '../sqs/client';
+import { PluginConfig } from '../config/defaults';
+import { captureConsole } from '../utils/console-capture';
+
+export interface DirectInvocationResult {
+  success: boolean;
+  result?: any;
+  error?: Error;
+  batchItemFailures: string[];
+  logs: string[];
+  duration: number;
+  event: SQSEvent;
+}
+
+export const isSqsEvent = (value: any): value is SQSEvent => {
+  return value !== null && typeof value === 'object' && Array.isArray(value.Records);
+};
+
+/**
+ * Runs a handler with a synthetic SQS event, without a queue or endpoint,
+ * and captures what it writes to the console.
+ */
+export class DirectInvoker {
+  private lambdaInvoker: LambdaInvoker;
+  private eventBuilder: EventBuilder;
+
+  constructor(lambdaInvoker: LambdaInvoker, config: PluginConfig) {
+    this.lambdaInvoker = lambdaInvoker;
+    this.eventBuilder = new EventBuilder(config.region);
+  }
+
+  async invoke(
+    functionDefinition: FunctionDefinition,
+    input: OutgoingMessage[] | SQSEvent,
+    queueName: string
+  ): Promise<DirectInvocationResult> {
+    const event = isSqsEvent(input)
+      ? input
+      : this.eventBuilder.buildSQSEvent(input.map(toSyntheticMessage), queueName);
+
+    const logs: string[] = [];
+    const startTime = Date.now();
+
+    const result = await captureConsole(logs, () =>
+      this.lambdaInvoker.invokeHandler(functionDefinition.handler, event, functionDefinition)
+    );
+
+    return {
+      success: result.success,
+      result: result.result,
+      error: result.error,
+      batchItemFailures: getBatchItemFailureIds(result.result),
+      logs,
+      duration: Date.now() - startTime,
+      event,
+    };
+  }
+}
+
+const toSyntheticMessage = (message: OutgoingMessage): Message => {
+  const messageId = randomUUID();
+  const attributes: Record<string, string> = {};
+
+  if (message.messageGroupId) {
+    attributes.MessageGroupId = message.messageGroupId;
+  }
+  if (message.messageDeduplicationId) {
+    attributes.MessageDeduplicationId = message.messageDeduplicationId;
+  }
+
+  return {
+    MessageId: messageId,
+    ReceiptHandle: `direct-invoke-${messageId}`,
+    Body: message.body,
+    Attributes: attributes,
+    MessageAttributes: message.attributes,
+  };
+};
+
+const getBatchItemFailureIds = (response: any): string[] => {
+  const failures = response?.batchItemFailures;
+  if (!Array.isArray(failures)) {
+    return [];
+  }
+  return failures.map((failure: any) => String(failure?.itemIdentifier));
+};
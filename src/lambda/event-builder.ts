@@ -1,10 +1,25 @@
 import { Message } from '@aws-sdk/client-sqs';
+import { FunctionDefinition } from './invoker';
+
+// Serverless' default memorySize
+const DEFAULT_MEMORY_SIZE = 1024;
+
+export interface SQSRecordAttributes {
+  ApproximateReceiveCount: string;
+  SentTimestamp: string;
+  SenderId: string;
+  ApproximateFirstReceiveTimestamp: string;
+  SequenceNumber?: string;
+  MessageGroupId?: string;
+  MessageDeduplicationId?: string;
+  [key: string]: string | undefined;
+}
 
 export interface SQSRecord {
   messageId: string;
   receiptHandle: string;
   body: string;
-  attributes: Record<string, string>;
+  attributes: SQSRecordAttributes;
   messageAttributes: Record<string, any>;
   md5OfBody: string;
   eventSource: string;
@@ -16,6 +31,14 @@ export interface SQSEvent {
   Records: SQSRecord[];
 }
 
+export interface SQSBatchItemFailure {
+  itemIdentifier: string;
+}
+
+export interface SQSBatchResponse {
+  batchItemFailures: SQSBatchItemFailure[];
+}
+
 export interface LambdaContext {
   callbackWaitsForEmptyEventLoop: boolean;
   functionName: string;
@@ -33,13 +56,29 @@ export interface LambdaContext {
   succeed(messageOrObject: any): void;
 }
 
+// The parts of serverless.yml the Lambda context is derived from. Timeouts
+// are in seconds, as in serverless.yml.
+export interface ServiceInfo {
+  service: string;
+  stage: string;
+  timeout?: number;
+  memorySize?: number;
+  functions: Record<string, {
+    name?: string;
+    timeout?: number;
+    memorySize?: number;
+  }>;
+}
+
 export class EventBuilder {
   private region: string;
   private accountId: string;
+  private serviceInfo?: ServiceInfo;
 
-  constructor(region: string, accountId = '000000000000') {
+  constructor(region: string, accountId = '000000000000', serviceInfo?: ServiceInfo) {
     this.region = region;
     this.accountId = accountId;
+    this.serviceInfo = serviceInfo;
   }
 
   buildSQSEvent(messages: Message[], queueName: string): SQSEvent {
@@ -52,6 +91,7 @@ export class EventBuilder {
         SentTimestamp: message.Attributes?.SentTimestamp || Date.now().toString(),
         SenderId: message.Attributes?.SenderId || 'AIDAIENQZJOLO23YVJ4VO',
         ApproximateFirstReceiveTimestamp: message.Attributes?.ApproximateFirstReceiveTimestamp || Date.now().toString(),
+        // FIFO system attributes (MessageGroupId, SequenceNumber, ...) pass through as received
         ...message.Attributes,
       },
       messageAttributes: this.formatMessageAttributes(message.MessageAttributes || {}),
@@ -64,16 +104,25 @@ export class EventBuilder {
     return { Records: records };
   }
 
-  buildLambdaContext(functionName: string, timeout: number): LambdaContext {
+  /**
+   * Builds the context the function would get when deployed: its
+   * `service-stage-function` name, ARN, timeout and memory size. Settings the
+   * function doesn't have come from the provider, then from the defaults.
+   */
+  buildLambdaContext(functionDefinition: FunctionDefinition, defaultTimeout: number): LambdaContext {
     const startTime = Date.now();
     const requestId = this.generateRequestId();
+    const functionName = this.getDeployedFunctionName(functionDefinition);
+    const settings = this.getFunctionSettings(functionDefinition);
+    const timeout = this.getFunctionTimeout(functionDefinition, defaultTimeout);
+    const memorySize = settings?.memorySize ?? this.serviceInfo?.memorySize ?? DEFAULT_MEMORY_SIZE;
 
     return {
       callbackWaitsForEmptyEventLoop: true,
       functionName,
       functionVersion: '$LATEST',
       invokedFunctionArn: `arn:aws:lambda:${this.region}:${this.accountId}:function:${functionName}`,
-      memoryLimitInMB: '1024',
+      memoryLimitInMB: memorySize.toString(),
       awsRequestId: requestId,
       logGroupName: `/aws/lambda/${functionName}`,
       logStreamName: `${new Date().toISOString().split('T')[0].replace(/-/g, '/')}/[$LATEST]${this.generateLogStreamSuffix()}`,
@@ -89,6 +138,32 @@ export class EventBuilder {
     };
   }
 
+  /**
+   * The function's timeout in ms: an explicit override, then the function's
+   * or the provider's `timeout` from serverless.yml, then `defaultTimeout`.
+   */
+  getFunctionTimeout(functionDefinition: FunctionDefinition, defaultTimeout: number): number {
+    const settings = this.getFunctionSettings(functionDefinition);
+    return functionDefinition.timeout ?? secondsToMillis(settings?.timeout ?? this.serviceInfo?.timeout) ?? defaultTimeout;
+  }
+
+  // Falls back to the handler for queues configured without a function
+  private getDeployedFunctionName({ functionName, handler }: FunctionDefinition): string {
+    if (!functionName) {
+      return handler;
+    }
+
+    const settings = this.getFunctionSettings({ functionName, handler });
+    if (settings?.name) {
+      return settings.name;
+    }
+    return this.serviceInfo ? `${this.serviceInfo.service}-${this.serviceInfo.stage}-${functionName}` : functionName;
+  }
+
+  private getFunctionSettings({ functionName }: FunctionDefinition): ServiceInfo['functions'][string] | undefined {
+    return functionName ? this.serviceInfo?.functions[functionName] : undefined;
+  }
+
   private formatMessageAttributes(attributes: Record<string, any>): Record<string, any> {
     const formatted: Record<string, any> = {};
     
@@ -139,4 +214,8 @@ export class EventBuilder {
     }
     return result;
   }
-}
\ No newline at end of file
+}
+
+const secondsToMillis = (seconds?: number): number | undefined => {
+  return seconds === undefined ? undefined : seconds * 1000;
+};
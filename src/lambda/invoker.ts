@@ -1,6 +1,6 @@
 import { resolve } from 'path';
 import { existsSync } from 'fs';
-import { EventBuilder, SQSEvent, LambdaContext } from './event-builder';
+import { EventBuilder, SQSEvent, LambdaContext, ServiceInfo } from './event-builder';
 import { Logger } from '../utils/logger';
 import { PluginConfig } from '../config/defaults';
 
@@ -12,6 +12,9 @@ export interface HandlerResult {
 
 export interface FunctionDefinition {
   handler: string;
+  // The function's key in serverless.yml
+  functionName?: string;
+  // Overrides the function's timeout (ms)
   timeout?: number;
   runtime?: string;
 }
@@ -23,11 +26,11 @@ export class LambdaInvoker {
   private servicePath: string;
   private handlerCache: Map<string, any> = new Map();
 
-  constructor(servicePath: string, config: PluginConfig, logger: Logger) {
+  constructor(servicePath: string, config: PluginConfig, logger: Logger, serviceInfo?: ServiceInfo) {
     this.servicePath = servicePath;
     this.config = config;
     this.logger = logger;
-    this.eventBuilder = new EventBuilder(config.region);
+    this.eventBuilder = new EventBuilder(config.region, undefined, serviceInfo);
   }
 
   async invokeHandler(
@@ -39,10 +42,7 @@ export class LambdaInvoker {
       this.logger.debug(`Invoking handler: ${handlerPath} with ${sqsEvent.Records.length} message(s)`);
 
       const handler = await this.loadHandler(handlerPath);
-      const context = this.eventBuilder.buildLambdaContext(
-        handlerPath,
-        functionDefinition.timeout || this.config.lambdaTimeout
-      );
+      const context = this.eventBuilder.buildLambdaContext(functionDefinition, this.config.lambdaTimeout);
 
       const startTime = Date.now();
       let result: any;
@@ -65,6 +65,13 @@ export class LambdaInvoker {
     }
   }
 
+  /**
+   * The timeout handlers of this function run with, in ms.
+   */
+  getFunctionTimeout(functionDefinition: FunctionDefinition): number {
+    return this.eventBuilder.getFunctionTimeout(functionDefinition, this.config.lambdaTimeout);
+  }
+
   private async loadHandler(handlerPath: string): Promise<any> {
     // Check cache first
     if (this.handlerCache.has(handlerPath)) {
@@ -0,0 +1,88 @@
+import { request } from 'http';
+import { ControlApiConfig } from '../config/defaults';
+
+// Wildcard addresses are bound on every interface, so reach them locally
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+/**
+ * Steers the pollers of a running offline session through its control API,
+ * for commands that run in a process of their own.
+ */
+export class ControlApiClient {
+  private config: ControlApiConfig;
+
+  constructor(config: ControlApiConfig) {
+    this.config = config;
+  }
+
+  async pausePollers(target: string): Promise<string[]> {
+    const { pollers } = await this.post(`/pollers/${encodeURIComponent(target)}/pause`);
+    return pollers;
+  }
+
+  async resumePollers(target: string): Promise<string[]> {
+    const { pollers } = await this.post(`/pollers/${encodeURIComponent(target)}/resume`);
+    return pollers;
+  }
+
+  async addPoller(target: string, handler?: string): Promise<void> {
+    await this.post(`/pollers/${encodeURIComponent(target)}/add`, handler ? { handler } : undefined);
+  }
+
+  async removePollers(target: string): Promise<string[]> {
+    const { pollers } = await this.post(`/pollers/${encodeURIComponent(target)}/remove`);
+    return pollers;
+  }
+
+  getUrl(): string {
+    return `http://${this.getHost()}:${this.config.port}`;
+  }
+
+  private getHost(): string {
+    return WILDCARD_HOSTS.includes(this.config.host) ? '127.0.0.1' : this.config.host;
+  }
+
+  private post(path: string, body?: any): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const req = request({
+        host: this.getHost(),
+        port: this.config.port,
+        method: 'POST',
+        path,
+        headers: { 'Content-Type': 'application/json' },
+      }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          data += chunk;
+        });
+        res.on('end', () => {
+          let payload: any;
+          try {
+            payload = JSON.parse(data);
+          } catch {
+            reject(new Error(`Unexpected response from the control API at ${this.getUrl()}`));
+            return;
+          }
+          if (res.statusCode !== 200) {
+            reject(new Error(payload.error || `Control API request failed with HTTP ${res.statusCode}`));
+            return;
+          }
+          resolve(payload);
+        });
+      });
+
+      req.on('error', (error: any) => {
+        if (error.code === 'ECONNREFUSED') {
+          reject(new Error(
+            `No offline session is listening at ${this.getUrl()}. ` +
+            'Start `serverless offline` with controlApi.enabled, then run the command again.'
+          ));
+          return;
+        }
+        reject(error);
+      });
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  }
+}
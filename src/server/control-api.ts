@@ -0,0 +1,333 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { OutgoingMessage } from '../sqs/client';
+import { InvocationRecord, PollerState } from '../sqs/poller';
+import { RedriveOptions, RedriveResult } from '../sqs/redrive';
+import { QueueSummary } from '../sqs/inspector';
+import { Logger } from '../utils/logger';
+import { parseOutgoingMessage, readStream } from '../utils/message-input';
+import { ControlApiConfig, QueueConfig } from '../config/defaults';
+import { renderDashboard } from './dashboard';
+
+// How often the dashboard reloads its data
+const DASHBOARD_REFRESH_INTERVAL = 2000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * What the control API can do with the running plugin.
+ */
+export interface ControlApiTarget {
+  listQueues(): Promise<QueueSummary[]>;
+  getPollerStates(): Map<string, PollerState>;
+  pauseQueue(target: string): Promise<string[]>;
+  resumeQueue(target: string): string[];
+  addQueue(target: string | QueueConfig): Promise<boolean>;
+  removeQueue(target: string): Promise<string[]>;
+  sendMessage(target: string, message: OutgoingMessage): Promise<string | undefined>;
+  sendMessages(target: string, messages: OutgoingMessage[]): Promise<number>;
+  purgeQueue(target: string): Promise<void>;
+  getInvocations(limit?: number): InvocationRecord[];
+  redrive(target: string, options?: RedriveOptions): Promise<RedriveResult>;
+}
+
+interface RouteRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  // Responses are JSON unless the route serves a page
+  contentType?: string;
+  handle(request: RouteRequest): Promise<any> | any;
+}
+
+export class HttpError extends Error {
+  readonly statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+/**
+ * JSON API over HTTP for inspecting and steering the offline session from
+ * scripts or other tools, plus a dashboard page at `/` built on it.
+ */
+export class ControlApiServer {
+  private target: ControlApiTarget;
+  private config: ControlApiConfig;
+  private logger: Logger;
+  private server?: Server;
+  private routes: Route[];
+
+  constructor(target: ControlApiTarget, config: ControlApiConfig, logger: Logger) {
+    this.target = target;
+    this.config = config;
+    this.logger = logger;
+    this.routes = this.buildRoutes();
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info(`Control API listening on http://${this.config.host}:${this.getPort()}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * The port the server is bound to, which differs from the configured one
+   * when that is 0.
+   */
+  getPort(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  private buildRoutes(): Route[] {
+    return [
+      {
+        method: 'GET',
+        pattern: /^\/$/,
+        contentType: 'text/html; charset=utf-8',
+        handle: () => renderDashboard(DASHBOARD_REFRESH_INTERVAL),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/queues$/,
+        handle: () => this.target.listQueues(),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/queues\/([^/]+)\/messages$/,
+        handle: ({ params: [queue], body }) => this.sendMessages(queue, body),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/queues\/([^/]+)\/purge$/,
+        handle: async ({ params: [queue] }) => {
+          await this.target.purgeQueue(queue);
+          return { purged: queue };
+        },
+      },
+      {
+        method: 'POST',
+        pattern: /^\/queues\/([^/]+)\/redrive$/,
+        handle: ({ params: [queue], body }) => this.target.redrive(queue, {
+          count: this.getPositiveNumber(body, 'count'),
+          rate: this.getPositiveNumber(body, 'rate'),
+        }),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/pollers$/,
+        handle: () => Object.fromEntries(this.target.getPollerStates()),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/pollers\/([^/]+)\/pause$/,
+        handle: async ({ params: [target] }) => this.requirePollers(target, await this.target.pauseQueue(target)),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/pollers\/([^/]+)\/resume$/,
+        handle: ({ params: [target] }) => this.requirePollers(target, this.target.resumeQueue(target)),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/pollers\/([^/]+)\/add$/,
+        handle: ({ params: [target], body }) => this.addPoller(target, body),
+      },
+      {
+        method: 'POST',
+        pattern: /^\/pollers\/([^/]+)\/remove$/,
+        handle: async ({ params: [target] }) => this.requirePollers(target, await this.target.removeQueue(target)),
+      },
+      {
+        method: 'GET',
+        pattern: /^\/invocations$/,
+        handle: ({ query }) => this.target.getInvocations(
+          query.has('limit') ? this.getPositiveNumber({ limit: query.get('limit') }, 'limit') : undefined
+        ),
+      },
+    ];
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    let matchedPath = false;
+
+    try {
+      this.checkRequestSource(req);
+
+      for (const route of this.routes) {
+        const match = route.pattern.exec(url.pathname);
+        if (!match) {
+          continue;
+        }
+        matchedPath = true;
+        if (route.method !== req.method) {
+          continue;
+        }
+
+        const body = req.method === 'POST' ? this.parseBody(req, await readStream(req)) : undefined;
+        const params = match.slice(1).map(decodeURIComponent);
+        const result = await route.handle({ params, query: url.searchParams, body });
+
+        if (route.contentType) {
+          res.writeHead(200, { 'Content-Type': route.contentType });
+          res.end(result);
+        } else {
+          this.sendJson(res, 200, result ?? {});
+        }
+        return;
+      }
+
+      if (matchedPath) {
+        throw new HttpError(405, `Method ${req.method} not allowed for ${url.pathname}`);
+      }
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    } catch (error: any) {
+      const statusCode = error instanceof HttpError ? error.statusCode : 500;
+      if (statusCode === 500) {
+        this.logger.warn(`Control API request ${req.method} ${url.pathname} failed: ${error.message}`);
+      }
+      this.sendJson(res, statusCode, { error: error.message });
+    }
+  }
+
+  private async sendMessages(queue: string, body: any): Promise<any> {
+    if (body === undefined) {
+      throw new HttpError(400, 'Request body is required');
+    }
+
+    if (Array.isArray(body?.messages)) {
+      const messages = this.parseMessages(body.messages);
+      const sent = await this.target.sendMessages(queue, messages);
+      return { sent, failed: messages.length - sent };
+    }
+
+    const [message] = this.parseMessages([body]);
+    return { messageId: await this.target.sendMessage(queue, message) };
+  }
+
+  private parseMessages(entries: any[]): OutgoingMessage[] {
+    try {
+      return entries.map(parseOutgoingMessage);
+    } catch (error: any) {
+      throw new HttpError(400, error.message);
+    }
+  }
+
+  /**
+   * Only answers requests addressed to this server by a loopback name, so
+   * web pages can't reach it through DNS rebinding or cross-site requests.
+   */
+  private checkRequestSource(req: IncomingMessage): void {
+    const allowedHosts = this.getAllowedHosts();
+
+    if (!req.headers.host || !allowedHosts.includes(req.headers.host.toLowerCase())) {
+      throw new HttpError(403, `Host not allowed: ${req.headers.host || '(none)'}`);
+    }
+
+    const origin = req.headers.origin;
+    if (origin !== undefined && !allowedHosts.some(host => origin.toLowerCase() === `http://${host}`)) {
+      throw new HttpError(403, `Origin not allowed: ${origin}`);
+    }
+  }
+
+  private getAllowedHosts(): string[] {
+    const names = [...LOOPBACK_HOSTS];
+    if (!['0.0.0.0', '::', ...LOOPBACK_HOSTS].includes(this.config.host)) {
+      names.push(this.config.host.includes(':') ? `[${this.config.host}]` : this.config.host);
+    }
+    return names.map(name => `${name.toLowerCase()}:${this.getPort()}`);
+  }
+
+  // A JSON content type can't be sent cross-site without a CORS preflight
+  private parseBody(req: IncomingMessage, raw: string): any {
+    const contentType = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (contentType !== 'application/json') {
+      throw new HttpError(415, 'Content-Type must be application/json');
+    }
+
+    if (raw.trim() === '') {
+      return undefined;
+    }
+    try {
+      return JSON.parse(raw);
+    } catch (error: any) {
+      throw new HttpError(400, `Invalid JSON body: ${error.message}`);
+    }
+  }
+
+  private getPositiveNumber(body: any, name: string): number | undefined {
+    const value = body?.[name];
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new HttpError(400, `${name} must be a positive number`);
+    }
+    return parsed;
+  }
+
+  // Without a handler, the queue comes from the plugin configuration
+  private async addPoller(target: string, body: any): Promise<{ added: string }> {
+    const handler = body?.handler;
+    if (handler !== undefined && typeof handler !== 'string') {
+      throw new HttpError(400, 'handler must be a string');
+    }
+
+    const added = await this.target.addQueue(handler ? { queueName: target, handler } : target);
+    if (!added) {
+      throw new HttpError(409, `No poller was added for: ${target}; the offline session's log has the reason`);
+    }
+    return { added: target };
+  }
+
+  private requirePollers(target: string, pollerIds: string[]): { pollers: string[] } {
+    if (pollerIds.length === 0) {
+      throw new HttpError(404, `No poller found for: ${target}`);
+    }
+    return { pollers: pollerIds };
+  }
+
+  private sendJson(res: ServerResponse, statusCode: number, payload: any): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(payload));
+  }
+}
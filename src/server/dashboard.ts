@@ -0,0 +1,175 @@
+/**
+ * Single-page dashboard served by the control API. It polls the JSON routes
+ * of the same server, so it needs no build step or assets of its own.
+ */
+export const renderDashboard = (refreshInterval: number): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>SQS Offline</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; color: #222; }
+  h1 { font-size: 1.3rem; }
+  h2 { font-size: 1.05rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th, td { text-align: left; padding: 0.35rem 0.6rem; border-bottom: 1px solid #ddd; vertical-align: top; }
+  th { background: #f4f4f4; }
+  .ok { color: #17803d; }
+  .failed, .error { color: #c0262d; }
+  .muted { color: #888; }
+  button { margin-right: 0.3rem; }
+  textarea { width: 100%; height: 5rem; font-family: monospace; }
+  #status { float: right; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<span id="status" class="muted"></span>
+<h1>SQS Offline</h1>
+
+<h2>Queues</h2>
+<table>
+  <thead><tr><th>Queue</th><th>Visible</th><th>In flight</th><th>Delayed</th><th>DLQ</th><th>Handler</th><th></th></tr></thead>
+  <tbody id="queues"></tbody>
+</table>
+
+<h2>Pollers</h2>
+<table>
+  <thead><tr><th>Poller</th><th>State</th><th>Messages</th><th>Errors</th><th>Last error</th><th>Last poll</th></tr></thead>
+  <tbody id="pollers"></tbody>
+</table>
+
+<h2>Send a message</h2>
+<form id="send">
+  <select id="send-queue"></select>
+  <textarea id="send-body" placeholder='{"hello": "world"}'></textarea>
+  <button type="submit">Send</button>
+</form>
+
+<h2>Invocations</h2>
+<table>
+  <thead><tr><th>Started</th><th>Queue</th><th>Function</th><th>Messages</th><th>Duration</th><th>Outcome</th></tr></thead>
+  <tbody id="invocations"></tbody>
+</table>
+
+<script>
+const escape = (value) => String(value ?? '').replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+const time = (value) => value ? new Date(value).toLocaleTimeString() : '-';
+const status = (text, isError) => {
+  const el = document.getElementById('status');
+  el.textContent = text;
+  el.className = isError ? 'error' : 'muted';
+};
+
+const api = async (method, path, body) => {
+  const res = await fetch(path, {
+    method,
+    headers: method === 'POST' ? { 'Content-Type': 'application/json' } : undefined,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload = await res.json();
+  if (!res.ok) {
+    throw new Error(payload.error || res.statusText);
+  }
+  return payload;
+};
+
+const queuePath = (queue) => '/queues/' + encodeURIComponent(queue);
+
+const renderQueues = (queues) => {
+  document.getElementById('queues').innerHTML = queues.map((q) => '<tr>' +
+    '<td>' + escape(q.queueName) + '</td>' +
+    (q.exists
+      ? '<td>' + q.visible + '</td><td>' + q.inFlight + '</td><td>' + q.delayed + '</td>'
+      : '<td colspan="3" class="error">missing</td>') +
+    '<td>' + (q.dlqName ? escape(q.dlqName) + ' (' + (q.dlqDepth ?? 'missing') + ')' : '-') + '</td>' +
+    '<td>' + escape(q.handlers.join(', ') || '-') + '</td>' +
+    '<td><button data-action="purge" data-queue="' + escape(q.queueName) + '">Purge</button>' +
+    (q.dlqName ? '<button data-action="redrive" data-queue="' + escape(q.queueName) + '">Redrive</button>' : '') +
+    '</td></tr>').join('');
+
+  const select = document.getElementById('send-queue');
+  const selected = select.value;
+  select.innerHTML = queues.map((q) => '<option>' + escape(q.queueName) + '</option>').join('');
+  if (selected) {
+    select.value = selected;
+  }
+};
+
+const renderPollers = (pollers) => {
+  document.getElementById('pollers').innerHTML = Object.entries(pollers).map(([id, p]) => {
+    const state = p.isPaused ? 'paused' : p.circuitState === 'open' ? 'disconnected' : p.isPolling ? 'polling' : 'stopped';
+    return '<tr><td>' + escape(id) + '</td><td>' + state + '</td><td>' + p.messageCount + '</td>' +
+      '<td>' + p.errorCount + '</td><td class="error">' + escape(p.lastError) + '</td>' +
+      '<td>' + time(p.lastPollTime) + '</td></tr>';
+  }).join('') || '<tr><td colspan="6" class="muted">No pollers running</td></tr>';
+};
+
+const renderInvocations = (invocations) => {
+  document.getElementById('invocations').innerHTML = invocations.map((i) => {
+    const failures = i.batchItemFailures && i.batchItemFailures.length
+      ? ' (' + i.batchItemFailures.length + ' item failure(s))'
+      : '';
+    const outcome = i.success
+      ? '<span class="ok">ok' + failures + '</span>'
+      : '<span class="failed">failed: ' + escape(i.error) + '</span>';
+    return '<tr><td>' + time(i.startedAt) + '</td><td>' + escape(i.queueName) + '</td>' +
+      '<td>' + escape(i.functionName || i.handler) + '</td><td>' + i.messageIds.length + '</td>' +
+      '<td>' + i.duration + ' ms</td><td>' + outcome + '</td></tr>';
+  }).join('') || '<tr><td colspan="6" class="muted">No invocations yet</td></tr>';
+};
+
+const refresh = async () => {
+  try {
+    const [queues, pollers, invocations] = await Promise.all([
+      api('GET', '/queues'),
+      api('GET', '/pollers'),
+      api('GET', '/invocations?limit=50'),
+    ]);
+    renderQueues(queues);
+    renderPollers(pollers);
+    renderInvocations(invocations);
+    status('Updated ' + new Date().toLocaleTimeString());
+  } catch (error) {
+    status(error.message, true);
+  }
+};
+
+document.getElementById('queues').addEventListener('click', async (event) => {
+  const { action, queue } = event.target.dataset;
+  if (!action) {
+    return;
+  }
+  try {
+    if (action === 'purge' && confirm('Delete all messages from ' + queue + '?')) {
+      await api('POST', queuePath(queue) + '/purge');
+      status('Purged ' + queue);
+    }
+    if (action === 'redrive') {
+      const result = await api('POST', queuePath(queue) + '/redrive', {});
+      status('Moved ' + result.moved + ' message(s) back to ' + queue);
+    }
+    refresh();
+  } catch (error) {
+    status(error.message, true);
+  }
+});
+
+document.getElementById('send').addEventListener('submit', async (event) => {
+  event.preventDefault();
+  const queue = document.getElementById('send-queue').value;
+  const body = document.getElementById('send-body').value;
+  try {
+    const result = await api('POST', queuePath(queue) + '/messages', { body });
+    status('Sent message ' + result.messageId + ' to ' + queue);
+    refresh();
+  } catch (error) {
+    status(error.message, true);
+  }
+});
+
+refresh();
+setInterval(refresh, ${refreshInterval});
+</script>
+</body>
+</html>
+`;
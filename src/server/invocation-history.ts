@@ -0,0 +1,30 @@
+import { InvocationRecord } from '../sqs/poller';
+
+const DEFAULT_CAPACITY = 100;
+
+/**
+ * Keeps the most recent handler invocations, newest first.
+ */
+export class InvocationHistory {
+  private records: InvocationRecord[] = [];
+  private capacity: number;
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this.capacity = capacity;
+  }
+
+  add(record: InvocationRecord): void {
+    this.records.unshift(record);
+    if (this.records.length > this.capacity) {
+      this.records.length = this.capacity;
+    }
+  }
+
+  list(limit?: number): InvocationRecord[] {
+    return this.records.slice(0, limit ?? this.capacity);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
@@ -0,0 +1,346 @@
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { SqsBackend, SqsServiceError } from '../sqs/backend';
+import { Logger } from '../utils/logger';
+import { readStream } from '../utils/message-input';
+import { SqsServerConfig } from '../config/defaults';
+
+const JSON_CONTENT_TYPE = 'application/x-amz-json-1.0';
+const XML_NAMESPACE = 'http://queue.amazonaws.com/doc/2012-11-05/';
+
+// Actions as named by SQS, mapped to the backend method handling them
+const ACTIONS: Record<string, keyof SqsBackend> = {
+  CreateQueue: 'createQueue',
+  GetQueueUrl: 'getQueueUrl',
+  GetQueueAttributes: 'getQueueAttributes',
+  SetQueueAttributes: 'setQueueAttributes',
+  ReceiveMessage: 'receiveMessage',
+  DeleteMessage: 'deleteMessage',
+  DeleteMessageBatch: 'deleteMessageBatch',
+  SendMessage: 'sendMessage',
+  SendMessageBatch: 'sendMessageBatch',
+  ChangeMessageVisibility: 'changeMessageVisibility',
+  ChangeMessageVisibilityBatch: 'changeMessageVisibilityBatch',
+  ListQueues: 'listQueues',
+  PurgeQueue: 'purgeQueue',
+  DeleteQueue: 'deleteQueue',
+};
+
+// Error codes that differ between the JSON and query protocols
+const ERROR_CODES: Record<string, { json: string; query: string }> = {
+  QueueDoesNotExist: { json: 'QueueDoesNotExist', query: 'AWS.SimpleQueueService.NonExistentQueue' },
+  QueueAlreadyExists: { json: 'QueueNameExists', query: 'QueueAlreadyExists' },
+  MessageNotInflight: { json: 'MessageNotInflight', query: 'AWS.SimpleQueueService.MessageNotInflight' },
+  EmptyBatchRequest: { json: 'EmptyBatchRequest', query: 'AWS.SimpleQueueService.EmptyBatchRequest' },
+  TooManyEntriesInBatchRequest: {
+    json: 'TooManyEntriesInBatchRequest',
+    query: 'AWS.SimpleQueueService.TooManyEntriesInBatchRequest',
+  },
+  BatchEntryIdsNotDistinct: {
+    json: 'BatchEntryIdsNotDistinct',
+    query: 'AWS.SimpleQueueService.BatchEntryIdsNotDistinct',
+  },
+};
+
+// Query parameters that carry numbers
+const NUMERIC_PARAMETERS = new Set([
+  'DelaySeconds',
+  'MaxNumberOfMessages',
+  'MaxResults',
+  'VisibilityTimeout',
+  'WaitTimeSeconds',
+]);
+
+// Query list parameters, mapped to the input field they fill
+const QUERY_LISTS: Record<string, string> = {
+  AttributeName: 'AttributeNames',
+  MessageSystemAttributeName: 'MessageSystemAttributeNames',
+  MessageAttributeName: 'MessageAttributeNames',
+  SendMessageBatchRequestEntry: 'Entries',
+  DeleteMessageBatchRequestEntry: 'Entries',
+  ChangeMessageVisibilityBatchRequestEntry: 'Entries',
+};
+
+const WILDCARD_HOSTS = ['0.0.0.0', '::'];
+
+type Protocol = 'json' | 'query';
+
+/**
+ * The endpoint URL SDK clients use for a server with this configuration.
+ */
+export const getSqsServerUrl = (config: SqsServerConfig, port = config.port): string => {
+  // Wildcard addresses are bound on every interface, so reach them locally
+  if (WILDCARD_HOSTS.includes(config.host)) {
+    return `http://localhost:${port}`;
+  }
+  const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+  return `http://${host}:${port}`;
+};
+
+/**
+ * SQS-compatible HTTP endpoint in front of a backend, speaking the AWS JSON
+ * 1.0 protocol of current SDKs and the query protocol of older ones.
+ */
+export class SqsServer {
+  private backend: SqsBackend;
+  private config: SqsServerConfig;
+  private logger: Logger;
+  private server?: Server;
+
+  constructor(backend: SqsBackend, config: SqsServerConfig, logger: Logger) {
+    this.backend = backend;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.config.port, this.config.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info(`SQS server listening on ${this.getUrl()}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  /**
+   * The endpoint URL for SDK clients, using the bound port.
+   */
+  getUrl(): string {
+    return getSqsServerUrl(this.config, (this.server?.address() as AddressInfo | null)?.port);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const target = req.headers['x-amz-target'];
+    const protocol: Protocol = typeof target === 'string' ? 'json' : 'query';
+    let action = '';
+
+    // Ends long polls whose client went away
+    const abortController = new AbortController();
+    res.on('close', () => abortController.abort());
+
+    try {
+      const raw = await readStream(req);
+      let input: any;
+
+      if (typeof target === 'string') {
+        action = target.replace(/^AmazonSQS\./, '');
+        input = decodeBinary(raw.trim() ? JSON.parse(raw) : {});
+      } else {
+        const params = new URLSearchParams(url.search);
+        for (const [key, value] of new URLSearchParams(raw)) {
+          params.append(key, value);
+        }
+        action = params.get('Action') || '';
+        input = parseQueryInput(params);
+        // Older SDKs send the queue URL as the request path
+        if (!input.QueueUrl && url.pathname !== '/') {
+          input.QueueUrl = url.pathname;
+        }
+      }
+
+      const method = ACTIONS[action];
+      if (!method) {
+        throw new SqsServiceError('InvalidAction', `The action ${action || '(none)'} is not valid for this endpoint.`);
+      }
+
+      this.logger.debug(`SQS server: ${action}`);
+      const output = await (this.backend[method] as (input: any, abortSignal?: AbortSignal) => Promise<any>)
+        .call(this.backend, input, abortController.signal);
+
+      if (protocol === 'json') {
+        res.writeHead(200, { 'Content-Type': JSON_CONTENT_TYPE });
+        res.end(JSON.stringify(encodeBinary(output)));
+      } else {
+        res.writeHead(200, { 'Content-Type': 'text/xml' });
+        res.end(renderXmlResponse(action, output));
+      }
+    } catch (error: any) {
+      this.sendError(res, protocol, error);
+    }
+  }
+
+  private sendError(res: ServerResponse, protocol: Protocol, error: any): void {
+    if (res.destroyed) {
+      return;
+    }
+
+    const known = error instanceof SqsServiceError || error instanceof SyntaxError;
+    const code = error instanceof SyntaxError ? 'SerializationException' : known ? error.name : 'InternalFailure';
+    const codes = ERROR_CODES[code] || { json: code, query: code };
+    const type = error instanceof SyntaxError || (error instanceof SqsServiceError && error.senderFault)
+      ? 'Sender'
+      : 'Receiver';
+    const statusCode = type === 'Sender' ? 400 : 500;
+
+    if (!known) {
+      this.logger.warn(`SQS server request failed: ${error.message}`);
+    }
+
+    if (protocol === 'json') {
+      res.writeHead(statusCode, {
+        'Content-Type': JSON_CONTENT_TYPE,
+        'x-amzn-query-error': `${codes.query};${type}`,
+      });
+      res.end(JSON.stringify({ __type: `com.amazonaws.sqs#${codes.json}`, message: error.message }));
+      return;
+    }
+
+    res.writeHead(statusCode, { 'Content-Type': 'text/xml' });
+    res.end(
+      `<ErrorResponse xmlns="${XML_NAMESPACE}"><Error><Type>${type}</Type><Code>${escapeXml(codes.query)}</Code>` +
+      `<Message>${escapeXml(error.message)}</Message><Detail/></Error><RequestId>${randomUUID()}</RequestId></ErrorResponse>`
+    );
+  }
+}
+
+/**
+ * Turns flattened query parameters such as `Attribute.1.Name` into the
+ * input shape the JSON protocol uses.
+ */
+const parseQueryInput = (params: URLSearchParams): any => {
+  const tree: any = {};
+  for (const [key, value] of params) {
+    const path = key.split('.');
+    let node = tree;
+    path.forEach((segment, index) => {
+      if (index === path.length - 1) {
+        node[segment] = value;
+      } else {
+        node = node[segment] = typeof node[segment] === 'object' ? node[segment] : {};
+      }
+    });
+  }
+
+  delete tree.Action;
+  delete tree.Version;
+  return toInput(tree);
+};
+
+const toInput = (node: any): any => {
+  const input: any = {};
+
+  for (const [key, value] of Object.entries<any>(node)) {
+    if (key === 'Attribute') {
+      input.Attributes = Object.fromEntries(toList(value).map(entry => [entry.Name, entry.Value]));
+    } else if (key === 'MessageAttribute') {
+      input.MessageAttributes = Object.fromEntries(toList(value).map(entry => [entry.Name, {
+        DataType: entry.Value?.DataType,
+        StringValue: entry.Value?.StringValue,
+        BinaryValue: entry.Value?.BinaryValue !== undefined ? Buffer.from(entry.Value.BinaryValue, 'base64') : undefined,
+      }]));
+    } else if (QUERY_LISTS[key]) {
+      const items = toList(value);
+      input[QUERY_LISTS[key]] = key.endsWith('Entry') ? items.map(toInput) : items;
+    } else if (key !== 'Tag') {
+      input[key] = NUMERIC_PARAMETERS.has(key) ? Number(value) : value;
+    }
+  }
+
+  return input;
+};
+
+// `Name.1`, `Name.2`, ... in index order; a bare `Name` is a one-item list
+const toList = (node: any): any[] => {
+  if (typeof node !== 'object' || node === null) {
+    return [node];
+  }
+  return Object.keys(node).sort((a, b) => Number(a) - Number(b)).map(key => node[key]);
+};
+
+const renderXmlResponse = (action: string, output: Record<string, any>): string => {
+  const result = Object.entries(output).map(([key, value]) => renderXmlField(action, key, value)).join('');
+  const metadata = `<ResponseMetadata><RequestId>${randomUUID()}</RequestId></ResponseMetadata>`;
+
+  return `<${action}Response xmlns="${XML_NAMESPACE}">` +
+    (result ? `<${action}Result>${result}</${action}Result>` : '') +
+    `${metadata}</${action}Response>`;
+};
+
+const renderXmlField = (action: string, key: string, value: any): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  switch (key) {
+    case 'Attributes':
+      return Object.entries(value).map(([name, attribute]) =>
+        `<Attribute><Name>${escapeXml(name)}</Name><Value>${escapeXml(attribute)}</Value></Attribute>`
+      ).join('');
+    case 'MessageAttributes':
+      return Object.entries<any>(value).map(([name, attribute]) =>
+        `<MessageAttribute><Name>${escapeXml(name)}</Name><Value>${renderXmlFields(action, attribute)}</Value></MessageAttribute>`
+      ).join('');
+    case 'Messages':
+      return value.map((message: any) => `<Message>${renderXmlFields(action, message)}</Message>`).join('');
+    case 'Successful':
+      return value.map((entry: any) => `<${action}ResultEntry>${renderXmlFields(action, entry)}</${action}ResultEntry>`).join('');
+    case 'Failed':
+      return value.map((entry: any) => `<BatchResultErrorEntry>${renderXmlFields(action, entry)}</BatchResultErrorEntry>`).join('');
+    case 'QueueUrls':
+      return value.map((queueUrl: string) => `<QueueUrl>${escapeXml(queueUrl)}</QueueUrl>`).join('');
+    default:
+      return `<${key}>${escapeXml(value instanceof Uint8Array ? Buffer.from(value).toString('base64') : value)}</${key}>`;
+  }
+};
+
+const renderXmlFields = (action: string, node: Record<string, any>): string => {
+  return Object.entries(node).map(([key, value]) => renderXmlField(action, key, value)).join('');
+};
+
+const escapeXml = (value: any): string => {
+  return String(value).replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+};
+
+// JSON requests carry binary attribute values as base64 strings
+const decodeBinary = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(decodeBinary);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+    key,
+    key === 'BinaryValue' && typeof item === 'string' ? Buffer.from(item, 'base64') : decodeBinary(item),
+  ]));
+};
+
+const encodeBinary = (value: any): any => {
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeBinary);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeBinary(item)]));
+};
@@ -0,0 +1,146 @@
+import {
+  SQSClient,
+  CreateQueueCommand,
+  CreateQueueCommandInput,
+  CreateQueueCommandOutput,
+  GetQueueUrlCommand,
+  GetQueueUrlCommandInput,
+  GetQueueUrlCommandOutput,
+  GetQueueAttributesCommand,
+  GetQueueAttributesCommandInput,
+  GetQueueAttributesCommandOutput,
+  SetQueueAttributesCommand,
+  SetQueueAttributesCommandInput,
+  ReceiveMessageCommand,
+  ReceiveMessageCommandInput,
+  ReceiveMessageCommandOutput,
+  DeleteMessageCommand,
+  DeleteMessageCommandInput,
+  DeleteMessageBatchCommand,
+  DeleteMessageBatchCommandInput,
+  DeleteMessageBatchCommandOutput,
+  SendMessageCommand,
+  SendMessageCommandInput,
+  SendMessageCommandOutput,
+  SendMessageBatchCommand,
+  SendMessageBatchCommandInput,
+  SendMessageBatchCommandOutput,
+  ChangeMessageVisibilityCommand,
+  ChangeMessageVisibilityCommandInput,
+  ChangeMessageVisibilityBatchCommand,
+  ChangeMessageVisibilityBatchCommandInput,
+  ChangeMessageVisibilityBatchCommandOutput,
+  ListQueuesCommand,
+  ListQueuesCommandInput,
+  ListQueuesCommandOutput,
+  PurgeQueueCommand,
+  PurgeQueueCommandInput,
+  DeleteQueueCommand,
+  DeleteQueueCommandInput,
+} from '@aws-sdk/client-sqs';
+
+// Backends answer with the SDK's output shapes, minus the response metadata
+type Output<T> = Promise<Omit<T, '$metadata'>>;
+
+/**
+ * The SQS actions the plugin uses. `SqsClientWrapper` talks to a backend
+ * instead of the SDK client, so queues can live in LocalStack or in memory.
+ */
+export interface SqsBackend {
+  createQueue(input: CreateQueueCommandInput): Output<CreateQueueCommandOutput>;
+  getQueueUrl(input: GetQueueUrlCommandInput): Output<GetQueueUrlCommandOutput>;
+  getQueueAttributes(input: GetQueueAttributesCommandInput): Output<GetQueueAttributesCommandOutput>;
+  setQueueAttributes(input: SetQueueAttributesCommandInput): Output<object>;
+  receiveMessage(input: ReceiveMessageCommandInput, abortSignal?: AbortSignal): Output<ReceiveMessageCommandOutput>;
+  deleteMessage(input: DeleteMessageCommandInput): Output<object>;
+  deleteMessageBatch(input: DeleteMessageBatchCommandInput): Output<DeleteMessageBatchCommandOutput>;
+  sendMessage(input: SendMessageCommandInput): Output<SendMessageCommandOutput>;
+  sendMessageBatch(input: SendMessageBatchCommandInput): Output<SendMessageBatchCommandOutput>;
+  changeMessageVisibility(input: ChangeMessageVisibilityCommandInput): Output<object>;
+  changeMessageVisibilityBatch(
+    input: ChangeMessageVisibilityBatchCommandInput
+  ): Output<ChangeMessageVisibilityBatchCommandOutput>;
+  listQueues(input: ListQueuesCommandInput): Output<ListQueuesCommandOutput>;
+  purgeQueue(input: PurgeQueueCommandInput): Output<object>;
+  deleteQueue(input: DeleteQueueCommandInput): Output<object>;
+}
+
+/**
+ * An error with the code SQS would answer with, e.g. `QueueDoesNotExist`.
+ */
+export class SqsServiceError extends Error {
+  readonly senderFault: boolean;
+
+  constructor(code: string, message: string, senderFault = true) {
+    super(message);
+    this.name = code;
+    this.senderFault = senderFault;
+  }
+}
+
+/**
+ * Sends every action to an SQS endpoint such as LocalStack through the AWS SDK.
+ */
+export class SdkSqsBackend implements SqsBackend {
+  readonly client: SQSClient;
+
+  constructor(client: SQSClient) {
+    this.client = client;
+  }
+
+  createQueue(input: CreateQueueCommandInput) {
+    return this.client.send(new CreateQueueCommand(input));
+  }
+
+  getQueueUrl(input: GetQueueUrlCommandInput) {
+    return this.client.send(new GetQueueUrlCommand(input));
+  }
+
+  getQueueAttributes(input: GetQueueAttributesCommandInput) {
+    return this.client.send(new GetQueueAttributesCommand(input));
+  }
+
+  setQueueAttributes(input: SetQueueAttributesCommandInput) {
+    return this.client.send(new SetQueueAttributesCommand(input));
+  }
+
+  receiveMessage(input: ReceiveMessageCommandInput, abortSignal?: AbortSignal) {
+    return this.client.send(new ReceiveMessageCommand(input), { abortSignal });
+  }
+
+  deleteMessage(input: DeleteMessageCommandInput) {
+    return this.client.send(new DeleteMessageCommand(input));
+  }
+
+  deleteMessageBatch(input: DeleteMessageBatchCommandInput) {
+    return this.client.send(new DeleteMessageBatchCommand(input));
+  }
+
+  sendMessage(input: SendMessageCommandInput) {
+    return this.client.send(new SendMessageCommand(input));
+  }
+
+  sendMessageBatch(input: SendMessageBatchCommandInput) {
+    return this.client.send(new SendMessageBatchCommand(input));
+  }
+
+  changeMessageVisibility(input: ChangeMessageVisibilityCommandInput) {
+    return this.client.send(new ChangeMessageVisibilityCommand(input));
+  }
+
+  changeMessageVisibilityBatch(input: ChangeMessageVisibilityBatchCommandInput) {
+    return this.client.send(new ChangeMessageVisibilityBatchCommand(input));
+  }
+
+  listQueues(input: ListQueuesCommandInput) {
+    return this.client.send(new ListQueuesCommand(input));
+  }
+
+  purgeQueue(input: PurgeQueueCommandInput) {
+    return this.client.send(new PurgeQueueCommand(input));
+  }
+
+  deleteQueue(input: DeleteQueueCommandInput) {
+    return this.client.send(new DeleteQueueCommand(input));
+  }
+}
@@ -1,17 +1,15 @@
-import {
-  SQSClient,
-  CreateQueueCommand,
-  GetQueueUrlCommand,
-  GetQueueAttributesCommand,
-  SetQueueAttributesCommand,
-  ReceiveMessageCommand,
-  DeleteMessageCommand,
-  DeleteMessageBatchCommand,
-  SendMessageCommand,
-  Message,
-} from '@aws-sdk/client-sqs';
+import { SQSClient, Message, MessageAttributeValue } from '@aws-sdk/client-sqs';
+import { SdkSqsBackend, SqsBackend } from './backend';
 import { Logger } from '../utils/logger';
 import { PluginConfig } from '../config/defaults';
+import { isFifoQueueName } from '../utils/queue-name';
+import { MAX_BATCH_ENTRIES } from './limits';
+
+// The JSON and query protocol codes for a missing queue
+const NON_EXISTENT_QUEUE_ERRORS = ['QueueDoesNotExist', 'AWS.SimpleQueueService.NonExistentQueue'];
+
+// The JSON and query protocol codes for a queue that exists with other attributes
+const QUEUE_EXISTS_ERRORS = ['QueueNameExists', 'QueueAlreadyExists'];
 
 export interface QueueInfo {
   queueUrl: string;
@@ -19,15 +17,37 @@ export interface QueueInfo {
   attributes?: Record<string, string>;
 }
 
+export interface VisibilityChange {
+  receiptHandle: string;
+  visibilityTimeout: number;
+}
+
+export interface SendMessageOptions {
+  messageGroupId?: string;
+  messageDeduplicationId?: string;
+  delaySeconds?: number;
+}
+
+export interface OutgoingMessage extends SendMessageOptions {
+  body: string;
+  attributes?: Record<string, MessageAttributeValue>;
+}
+
 export class SqsClientWrapper {
-  private client: SQSClient;
+  private backend: SqsBackend;
   private logger: Logger;
   private config: PluginConfig;
 
-  constructor(config: PluginConfig, logger: Logger, endpoint?: string) {
+  constructor(config: PluginConfig, logger: Logger, endpoint?: string, backend?: SqsBackend) {
     this.config = config;
     this.logger = logger;
-    
+
+    if (backend) {
+      this.backend = backend;
+      this.logger.debug(`SQS Client initialized with ${backend.constructor.name}`);
+      return;
+    }
+
     const clientConfig: any = {
       region: config.region,
       credentials: {
@@ -41,20 +61,23 @@ export class SqsClientWrapper {
       clientConfig.endpoint = endpoint;
     }
 
-    this.client = new SQSClient(clientConfig);
+    this.backend = new SdkSqsBackend(new SQSClient(clientConfig));
     this.logger.debug(`SQS Client initialized with endpoint: ${endpoint || 'default'}`);
   }
 
   async createQueue(queueName: string, attributes?: Record<string, string>): Promise<QueueInfo> {
     try {
       this.logger.debug(`Creating queue: ${queueName}`);
+
+      // SQS rejects `.fifo` names unless the queue is created as FIFO
+      if (isFifoQueueName(queueName)) {
+        attributes = { ...attributes, FifoQueue: 'true' };
+      }
       
-      const command = new CreateQueueCommand({
+      const response = await this.backend.createQueue({
         QueueName: queueName,
         Attributes: attributes,
       });
-
-      const response = await this.client.send(command);
       
       if (!response.QueueUrl) {
         throw new Error(`Failed to create queue ${queueName}: No queue URL returned`);
@@ -68,7 +91,7 @@ export class SqsClientWrapper {
         attributes,
       };
     } catch (error: any) {
-      if (error.name === 'QueueAlreadyExists') {
+      if (QUEUE_EXISTS_ERRORS.includes(error.name)) {
         this.logger.debug(`Queue ${queueName} already exists, getting URL`);
         return this.getQueueInfo(queueName);
       }
@@ -78,19 +101,16 @@ export class SqsClientWrapper {
 
   async getQueueInfo(queueName: string): Promise<QueueInfo> {
     try {
-      const urlCommand = new GetQueueUrlCommand({ QueueName: queueName });
-      const urlResponse = await this.client.send(urlCommand);
+      const urlResponse = await this.backend.getQueueUrl({ QueueName: queueName });
       
       if (!urlResponse.QueueUrl) {
         throw new Error(`Queue ${queueName} not found`);
       }
 
-      const attrsCommand = new GetQueueAttributesCommand({
+      const attrsResponse = await this.backend.getQueueAttributes({
         QueueUrl: urlResponse.QueueUrl,
         AttributeNames: ['All'],
       });
-      
-      const attrsResponse = await this.client.send(attrsCommand);
 
       return {
         queueUrl: urlResponse.QueueUrl,
@@ -102,52 +122,84 @@ export class SqsClientWrapper {
     }
   }
 
+  /**
+   * Returns whether a queue with this name exists. Other failures, such as
+   * an unreachable endpoint, are thrown.
+   */
+  async queueExists(queueName: string): Promise<boolean> {
+    try {
+      await this.backend.getQueueUrl({ QueueName: queueName });
+      return true;
+    } catch (error: any) {
+      if (NON_EXISTENT_QUEUE_ERRORS.includes(error.name)) {
+        return false;
+      }
+      throw new Error(`Failed to look up queue ${queueName}: ${error.message}`);
+    }
+  }
+
   async setQueueAttributes(queueUrl: string, attributes: Record<string, string>): Promise<void> {
     try {
-      const command = new SetQueueAttributesCommand({
+      await this.backend.setQueueAttributes({
         QueueUrl: queueUrl,
         Attributes: attributes,
       });
-
-      await this.client.send(command);
       this.logger.debug(`Updated attributes for queue: ${queueUrl}`);
     } catch (error: any) {
       throw new Error(`Failed to set queue attributes: ${error.message}`);
     }
   }
 
+  async purgeQueue(queueUrl: string): Promise<void> {
+    try {
+      await this.backend.purgeQueue({ QueueUrl: queueUrl });
+      this.logger.debug(`Purged queue: ${queueUrl}`);
+    } catch (error: any) {
+      throw new Error(`Failed to purge queue ${queueUrl}: ${error.message}`);
+    }
+  }
+
+  async deleteQueue(queueUrl: string): Promise<void> {
+    try {
+      await this.backend.deleteQueue({ QueueUrl: queueUrl });
+      this.logger.debug(`Deleted queue: ${queueUrl}`);
+    } catch (error: any) {
+      throw new Error(`Failed to delete queue ${queueUrl}: ${error.message}`);
+    }
+  }
+
   async receiveMessages(
     queueUrl: string,
     maxMessages = 1,
     visibilityTimeout = 30,
-    waitTimeSeconds = 20
+    waitTimeSeconds = 20,
+    abortSignal?: AbortSignal
   ): Promise<Message[]> {
     try {
-      const command = new ReceiveMessageCommand({
+      const response = await this.backend.receiveMessage({
         QueueUrl: queueUrl,
         MaxNumberOfMessages: maxMessages,
         VisibilityTimeout: visibilityTimeout,
         WaitTimeSeconds: waitTimeSeconds,
         AttributeNames: ['All'],
+        MessageSystemAttributeNames: ['All'],
         MessageAttributeNames: ['All'],
-      });
-
-      const response = await this.client.send(command);
+      }, abortSignal);
       return response.Messages || [];
     } catch (error: any) {
-      this.logger.error(`Failed to receive messages from ${queueUrl}: ${error.message}`);
-      return [];
+      if (abortSignal?.aborted) {
+        return [];
+      }
+      throw new Error(`Failed to receive messages from ${queueUrl}: ${error.message}`);
     }
   }
 
   async deleteMessage(queueUrl: string, receiptHandle: string): Promise<void> {
     try {
-      const command = new DeleteMessageCommand({
+      await this.backend.deleteMessage({
         QueueUrl: queueUrl,
         ReceiptHandle: receiptHandle,
       });
-
-      await this.client.send(command);
       this.logger.debug(`Deleted message from queue: ${queueUrl}`);
     } catch (error: any) {
       this.logger.error(`Failed to delete message: ${error.message}`);
@@ -159,20 +211,23 @@ export class SqsClientWrapper {
     if (receiptHandles.length === 0) return;
 
     try {
-      const entries = receiptHandles.map((handle, index) => ({
-        Id: index.toString(),
-        ReceiptHandle: handle,
-      }));
+      let failedCount = 0;
 
-      const command = new DeleteMessageBatchCommand({
-        QueueUrl: queueUrl,
-        Entries: entries,
-      });
+      for (let i = 0; i < receiptHandles.length; i += MAX_BATCH_ENTRIES) {
+        const entries = receiptHandles.slice(i, i + MAX_BATCH_ENTRIES).map((handle, index) => ({
+          Id: index.toString(),
+          ReceiptHandle: handle,
+        }));
 
-      const response = await this.client.send(command);
+        const response = await this.backend.deleteMessageBatch({
+          QueueUrl: queueUrl,
+          Entries: entries,
+        });
+        failedCount += response.Failed?.length || 0;
+      }
       
-      if (response.Failed && response.Failed.length > 0) {
-        this.logger.warn(`Failed to delete ${response.Failed.length} messages`);
+      if (failedCount > 0) {
+        this.logger.warn(`Failed to delete ${failedCount} messages`);
       }
 
       this.logger.debug(`Deleted ${receiptHandles.length} messages from queue: ${queueUrl}`);
@@ -182,23 +237,135 @@ export class SqsClientWrapper {
     }
   }
 
-  async sendMessage(queueUrl: string, messageBody: string, attributes?: Record<string, any>): Promise<void> {
+  async changeMessageVisibility(queueUrl: string, receiptHandle: string, visibilityTimeout: number): Promise<void> {
+    try {
+      await this.backend.changeMessageVisibility({
+        QueueUrl: queueUrl,
+        ReceiptHandle: receiptHandle,
+        VisibilityTimeout: visibilityTimeout,
+      });
+      this.logger.debug(`Changed message visibility to ${visibilityTimeout}s in queue: ${queueUrl}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to change message visibility: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async changeMessageVisibilityBatch(queueUrl: string, changes: VisibilityChange[]): Promise<void> {
+    if (changes.length === 0) return;
+
     try {
-      const command = new SendMessageCommand({
+      let failedCount = 0;
+
+      for (let i = 0; i < changes.length; i += MAX_BATCH_ENTRIES) {
+        const entries = changes.slice(i, i + MAX_BATCH_ENTRIES).map((change, index) => ({
+          Id: index.toString(),
+          ReceiptHandle: change.receiptHandle,
+          VisibilityTimeout: change.visibilityTimeout,
+        }));
+
+        const response = await this.backend.changeMessageVisibilityBatch({
+          QueueUrl: queueUrl,
+          Entries: entries,
+        });
+        failedCount += response.Failed?.length || 0;
+      }
+
+      if (failedCount > 0) {
+        this.logger.warn(`Failed to change visibility of ${failedCount} messages`);
+      }
+
+      this.logger.debug(`Changed visibility of ${changes.length} messages in queue: ${queueUrl}`);
+    } catch (error: any) {
+      this.logger.error(`Failed to change message visibility: ${error.message}`);
+      throw error;
+    }
+  }
+
+  async sendMessage(
+    queueUrl: string,
+    messageBody: string,
+    attributes?: Record<string, any>,
+    options: SendMessageOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      const response = await this.backend.sendMessage({
         QueueUrl: queueUrl,
         MessageBody: messageBody,
         MessageAttributes: attributes,
+        MessageGroupId: options.messageGroupId,
+        MessageDeduplicationId: options.messageDeduplicationId,
+        DelaySeconds: options.delaySeconds,
       });
+      this.logger.debug(`Sent message to queue: ${queueUrl}`);
+      return response?.MessageId;
+    } catch (error: any) {
+      this.logger.error(`Failed to send message: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Sends messages in batches of 10 and returns how many were accepted.
+   */
+  async sendMessageBatch(queueUrl: string, messages: OutgoingMessage[]): Promise<number> {
+    if (messages.length === 0) return 0;
+
+    try {
+      const failures: string[] = [];
+
+      for (let i = 0; i < messages.length; i += MAX_BATCH_ENTRIES) {
+        const entries = messages.slice(i, i + MAX_BATCH_ENTRIES).map((message, index) => ({
+          Id: index.toString(),
+          MessageBody: message.body,
+          MessageAttributes: message.attributes,
+          MessageGroupId: message.messageGroupId,
+          MessageDeduplicationId: message.messageDeduplicationId,
+          DelaySeconds: message.delaySeconds,
+        }));
+
+        const response = await this.backend.sendMessageBatch({
+          QueueUrl: queueUrl,
+          Entries: entries,
+        });
+        for (const failure of response.Failed || []) {
+          failures.push(`message ${i + Number(failure.Id) + 1}: ${failure.Message || failure.Code}`);
+        }
+      }
+
+      if (failures.length > 0) {
+        this.logger.warn(`Failed to send ${failures.length} messages (${failures.join('; ')})`);
+      }
 
-      await this.client.send(command);
-      this.logger.debug(`Sent message to DLQ: ${queueUrl}`);
+      this.logger.debug(`Sent ${messages.length - failures.length} messages to queue: ${queueUrl}`);
+      return messages.length - failures.length;
     } catch (error: any) {
-      this.logger.error(`Failed to send message to DLQ: ${error.message}`);
+      this.logger.error(`Failed to send messages: ${error.message}`);
       throw error;
     }
   }
 
-  getClient(): SQSClient {
-    return this.client;
+  /**
+   * Returns whether the endpoint answers SQS requests, without throwing.
+   */
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.backend.listQueues({ MaxResults: 1 });
+      return true;
+    } catch (error: any) {
+      this.logger.debug(`SQS endpoint health check failed: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * The AWS SDK client, unless the queues live in another backend.
+   */
+  getClient(): SQSClient | undefined {
+    return this.backend instanceof SdkSqsBackend ? this.backend.client : undefined;
+  }
+
+  getBackend(): SqsBackend {
+    return this.backend;
   }
 }
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { SqsClientWrapper } from './client';
+import { Logger } from '../utils/logger';
+import { sleep } from '../utils/sleep';
+import { PluginConfig } from '../config/defaults';
+
+/**
+ * Health-checks the SQS endpoint after it has gone away and runs a recovery
+ * callback once it answers again. Recovery is retried on the next check
+ * until it succeeds.
+ */
+export class ConnectionMonitor {
+  private sqsClient: SqsClientWrapper;
+  private config: PluginConfig;
+  private logger: Logger;
+  private abortController?: AbortController;
+  // Set when another outage is reported while a recovery is running
+  private recoveryRequested = false;
+
+  constructor(sqsClient: SqsClientWrapper, config: PluginConfig, logger: Logger) {
+    this.sqsClient = sqsClient;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Starts the health-check loop unless one is already running.
+   */
+  watch(onRecover: () => Promise<void>): void {
+    this.recoveryRequested = true;
+    if (this.abortController) {
+      return;
+    }
+
+    this.logger.warn(
+      `Lost connection to the SQS endpoint, checking every ${this.config.healthCheckInterval}ms until it is back`
+    );
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+
+    this.runHealthChecks(onRecover, abortController.signal).finally(() => {
+      if (this.abortController === abortController) {
+        this.abortController = undefined;
+      }
+    });
+  }
+
+  stop(): void {
+    this.abortController?.abort();
+    this.abortController = undefined;
+  }
+
+  isWatching(): boolean {
+    return this.abortController !== undefined;
+  }
+
+  private async runHealthChecks(onRecover: () => Promise<void>, signal: AbortSignal): Promise<void> {
+    while (!signal.aborted) {
+      await sleep(this.config.healthCheckInterval, signal);
+
+      if (signal.aborted || !(await this.sqsClient.checkConnection())) {
+        continue;
+      }
+
+      try {
+        this.logger.info('SQS endpoint is reachable again, recovering pollers');
+        this.recoveryRequested = false;
+        await onRecover();
+
+        if (!this.recoveryRequested) {
+          this.logger.info('Recovered from SQS endpoint outage');
+          return;
+        }
+      } catch (error: any) {
+        this.logger.warn(`Recovery failed, retrying: ${error.message}`);
+      }
+    }
+  }
+}
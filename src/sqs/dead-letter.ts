@@ -0,0 +1,166 @@
+import { Message, MessageAttributeValue } from '@aws-sdk/client-sqs';
+import { MAX_MESSAGE_ATTRIBUTES } from './limits';
+
+// Longer failure reasons are cut so the copy stays within the message size limit
+const MAX_FAILURE_REASON_LENGTH = 1024;
+
+export const FAILURE_ATTRIBUTES = {
+  reason: 'DeadLetter.FailureReason',
+  failedAt: 'DeadLetter.FailedAt',
+  sourceQueue: 'DeadLetter.SourceQueue',
+  handler: 'DeadLetter.Handler',
+  receiveCount: 'DeadLetter.ReceiveCount',
+};
+
+export interface RedrivePolicy {
+  deadLetterTargetArn: string;
+  maxReceiveCount: number;
+}
+
+export interface DeadLetterFailure {
+  reason: string;
+  queueName: string;
+  handler: string;
+  receiveCount: number;
+}
+
+export interface DeadLetterMessage {
+  body: string;
+  attributes?: Record<string, MessageAttributeValue>;
+  messageGroupId?: string;
+}
+
+/**
+ * Parses a queue's `RedrivePolicy` attribute. Returns undefined when the
+ * queue has none or it cannot be read.
+ */
+export const parseRedrivePolicy = (attribute?: string): RedrivePolicy | undefined => {
+  if (!attribute) {
+    return undefined;
+  }
+
+  try {
+    const policy = JSON.parse(attribute);
+    const maxReceiveCount = Number(policy.maxReceiveCount);
+    if (typeof policy.deadLetterTargetArn !== 'string' || !Number.isFinite(maxReceiveCount)) {
+      return undefined;
+    }
+    return { deadLetterTargetArn: policy.deadLetterTargetArn, maxReceiveCount };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Keeps the body and message attributes of the failed message as they were
+ * and adds the failure details as extra attributes, as far as the attribute
+ * limit allows.
+ */
+export const buildDeadLetterCopy = (message: Message, failure: DeadLetterFailure): DeadLetterMessage => {
+  const attributes = copyMessageAttributes(message.MessageAttributes);
+
+  const metadata: [string, string][] = [
+    [FAILURE_ATTRIBUTES.reason, failure.reason.slice(0, MAX_FAILURE_REASON_LENGTH)],
+    [FAILURE_ATTRIBUTES.failedAt, new Date().toISOString()],
+    [FAILURE_ATTRIBUTES.sourceQueue, failure.queueName],
+    [FAILURE_ATTRIBUTES.handler, failure.handler],
+    [FAILURE_ATTRIBUTES.receiveCount, failure.receiveCount.toString()],
+  ];
+
+  for (const [name, value] of metadata) {
+    if (Object.keys(attributes).length >= MAX_MESSAGE_ATTRIBUTES) {
+      break;
+    }
+    if (!(name in attributes)) {
+      attributes[name] = { DataType: name === FAILURE_ATTRIBUTES.receiveCount ? 'Number' : 'String', StringValue: value };
+    }
+  }
+
+  return {
+    body: message.Body ?? '',
+    attributes,
+  };
+};
+
+/**
+ * Wraps the failed message in the JSON envelope used by earlier versions.
+ */
+export const buildDeadLetterEnvelope = (message: Message, failure: DeadLetterFailure): DeadLetterMessage => {
+  return {
+    body: JSON.stringify({
+      originalMessage: message,
+      failureReason: failure.reason,
+      failureTime: new Date().toISOString(),
+      queueName: failure.queueName,
+      handler: failure.handler,
+    }),
+  };
+};
+
+/**
+ * Recovers the message as it was before it failed: unwraps the envelope
+ * format and drops the failure metadata added to copies.
+ */
+export const restoreDeadLetterMessage = (message: Message): DeadLetterMessage => {
+  const envelope = parseEnvelope(message.Body);
+  if (envelope) {
+    const attributes = copyMessageAttributes(envelope.originalMessage.MessageAttributes);
+    return {
+      body: envelope.originalMessage.Body ?? '',
+      attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+      messageGroupId: envelope.originalMessage.Attributes?.MessageGroupId,
+    };
+  }
+
+  const attributes = copyMessageAttributes(message.MessageAttributes);
+  for (const name of Object.values(FAILURE_ATTRIBUTES)) {
+    delete attributes[name];
+  }
+
+  return {
+    body: message.Body ?? '',
+    attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    messageGroupId: message.Attributes?.MessageGroupId,
+  };
+};
+
+// Received attribute values carry list fields that SendMessage does not accept
+const copyMessageAttributes = (
+  messageAttributes?: Record<string, MessageAttributeValue>
+): Record<string, MessageAttributeValue> => {
+  const attributes: Record<string, MessageAttributeValue> = {};
+
+  for (const [name, value] of Object.entries(messageAttributes || {})) {
+    attributes[name] = {
+      DataType: value.DataType,
+      StringValue: value.StringValue,
+      BinaryValue: toBinary(value.BinaryValue),
+    };
+  }
+
+  return attributes;
+};
+
+// Binary values that went through JSON come back as `{ "0": 1, ... }` objects
+const toBinary = (value: any): Uint8Array | undefined => {
+  if (value === undefined || value === null || value instanceof Uint8Array) {
+    return value ?? undefined;
+  }
+  return Uint8Array.from(Object.values(value) as number[]);
+};
+
+const parseEnvelope = (body?: string): { originalMessage: Message } | undefined => {
+  if (!body) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(body);
+    if (parsed && typeof parsed.originalMessage === 'object' && parsed.originalMessage !== null && 'failureReason' in parsed) {
+      return parsed;
+    }
+  } catch {
+    // Not an envelope
+  }
+  return undefined;
+};
@@ -0,0 +1,233 @@
+import { SQSRecord } from '../lambda/event-builder';
+
+export type FilterPattern = Record<string, any>;
+
+export interface FilterResult {
+  matches: boolean;
+  // One entry per pattern that rejected the record, naming the failing field
+  rejections: string[];
+}
+
+type NumericOperator = '=' | '<' | '<=' | '>' | '>=';
+
+const NUMERIC_OPERATORS: NumericOperator[] = ['=', '<', '<=', '>', '>='];
+
+const SUPPORTED_OPERATORS = ['prefix', 'suffix', 'equals-ignore-case', 'numeric', 'anything-but'];
+
+/**
+ * Evaluates an SQS record against Lambda event filter patterns. Patterns use
+ * the EventBridge syntax and are OR'ed together: the record is kept when any
+ * pattern matches. A JSON body is matched field by field, any other body only
+ * as a plain string.
+ */
+export const evaluateFilterPatterns = (record: SQSRecord, patterns: FilterPattern[]): FilterResult => {
+  const data = toFilterableRecord(record);
+  const rejections: string[] = [];
+
+  for (const pattern of patterns) {
+    const failedPath = matchObject(pattern, data, '');
+    if (failedPath === null) {
+      return { matches: true, rejections: [] };
+    }
+    rejections.push(`${JSON.stringify(pattern)} (no match at ${failedPath})`);
+  }
+
+  return { matches: false, rejections };
+};
+
+/**
+ * Normalizes configured patterns: CloudFormation-style `{ Pattern: '<json>' }`
+ * entries and JSON strings are parsed into pattern objects. Throws on
+ * malformed JSON and on patterns the matcher cannot evaluate.
+ */
+export const parseFilterPatterns = (patterns: any[]): FilterPattern[] => {
+  return patterns.map((pattern, index) => {
+    const parsed = typeof pattern === 'string' || typeof pattern?.Pattern === 'string'
+      ? parsePatternJson(typeof pattern === 'string' ? pattern : pattern.Pattern, index)
+      : pattern;
+
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error(`Invalid filter pattern ${index}: must be an object`);
+    }
+    validatePattern(parsed, '');
+    return parsed;
+  });
+};
+
+const parsePatternJson = (json: string, index: number): any => {
+  try {
+    return JSON.parse(json);
+  } catch (error: any) {
+    throw new Error(`Invalid filter pattern ${index}: ${error.message}`);
+  }
+};
+
+const validatePattern = (pattern: Record<string, any>, path: string): void => {
+  for (const [key, expected] of Object.entries(pattern)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+
+    if (Array.isArray(expected)) {
+      expected.forEach(matcher => validateMatcher(matcher, fieldPath));
+    } else if (expected !== null && typeof expected === 'object') {
+      validatePattern(expected, fieldPath);
+    } else {
+      throw new Error(`Invalid filter pattern at ${fieldPath}: values must be arrays or objects`);
+    }
+  }
+};
+
+const validateMatcher = (matcher: any, fieldPath: string): void => {
+  if (matcher === null || typeof matcher !== 'object') {
+    return;
+  }
+
+  const [operator] = Object.keys(matcher);
+  if (operator === 'exists') {
+    return;
+  }
+  if (!SUPPORTED_OPERATORS.includes(operator)) {
+    throw new Error(`Invalid filter pattern at ${fieldPath}: unsupported operator ${operator}`);
+  }
+  if (operator === 'numeric' && !isValidNumericFilter(matcher.numeric)) {
+    throw new Error(`Invalid filter pattern at ${fieldPath}: invalid numeric filter ${JSON.stringify(matcher.numeric)}`);
+  }
+  if (operator === 'anything-but' && matcher[operator] !== null && typeof matcher[operator] === 'object' &&
+    !Array.isArray(matcher[operator])) {
+    validateMatcher(matcher[operator], fieldPath);
+  }
+};
+
+const isValidNumericFilter = (conditions: any): boolean => {
+  if (!Array.isArray(conditions) || conditions.length === 0 || conditions.length % 2 !== 0) {
+    return false;
+  }
+  for (let i = 0; i < conditions.length; i += 2) {
+    if (!NUMERIC_OPERATORS.includes(conditions[i]) || typeof conditions[i + 1] !== 'number') {
+      return false;
+    }
+  }
+  return true;
+};
+
+const toFilterableRecord = (record: SQSRecord): Record<string, any> => {
+  let body: any = record.body;
+  try {
+    const parsed = JSON.parse(record.body);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      body = parsed;
+    }
+  } catch {
+    // Non-JSON bodies are matched as plain strings
+  }
+
+  return { ...record, body };
+};
+
+// Returns the path of the first field that fails to match, or null on a match
+const matchObject = (pattern: Record<string, any>, data: any, path: string): string | null => {
+  for (const [key, expected] of Object.entries(pattern)) {
+    const fieldPath = path ? `${path}.${key}` : key;
+    const hasField = data !== null && typeof data === 'object' && !Array.isArray(data) && key in data;
+    const actual = hasField ? data[key] : undefined;
+
+    if (Array.isArray(expected)) {
+      if (!matchLeaf(expected, hasField, actual)) {
+        return fieldPath;
+      }
+    } else if (expected !== null && typeof expected === 'object') {
+      const failedPath = matchObject(expected, actual, fieldPath);
+      if (failedPath !== null) {
+        return failedPath;
+      }
+    } else {
+      throw new Error(`Invalid filter pattern at ${fieldPath}: values must be arrays or objects`);
+    }
+  }
+
+  return null;
+};
+
+const matchLeaf = (matchers: any[], hasField: boolean, actual: any): boolean => {
+  // Array values match when any element matches
+  const values = Array.isArray(actual) ? actual : [actual];
+
+  return matchers.some((matcher) => {
+    if (matcher !== null && typeof matcher === 'object') {
+      if ('exists' in matcher) {
+        return matcher.exists ? hasField && actual !== undefined : !hasField;
+      }
+      return hasField && values.some(value => matchOperator(matcher, value));
+    }
+    return hasField && values.some(value => value === matcher);
+  });
+};
+
+const matchOperator = (matcher: Record<string, any>, value: any): boolean => {
+  const [operator] = Object.keys(matcher);
+  const operand = matcher[operator];
+
+  switch (operator) {
+    case 'prefix':
+      return typeof value === 'string' && matchString(operand, value, (a, b) => a.startsWith(b));
+    case 'suffix':
+      return typeof value === 'string' && matchString(operand, value, (a, b) => a.endsWith(b));
+    case 'equals-ignore-case':
+      return typeof value === 'string' && typeof operand === 'string' && value.toLowerCase() === operand.toLowerCase();
+    case 'numeric':
+      return typeof value === 'number' && matchNumeric(operand, value);
+    case 'anything-but':
+      return !matchAnythingBut(operand, value);
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+};
+
+// `prefix`/`suffix` accept a string or `{ 'equals-ignore-case': string }`
+const matchString = (operand: any, value: string, compare: (value: string, operand: string) => boolean): boolean => {
+  if (typeof operand === 'string') {
+    return compare(value, operand);
+  }
+  if (operand && typeof operand['equals-ignore-case'] === 'string') {
+    return compare(value.toLowerCase(), operand['equals-ignore-case'].toLowerCase());
+  }
+  return false;
+};
+
+const matchNumeric = (conditions: any[], value: number): boolean => {
+  if (!Array.isArray(conditions) || conditions.length === 0 || conditions.length % 2 !== 0) {
+    throw new Error(`Invalid numeric filter: ${JSON.stringify(conditions)}`);
+  }
+
+  for (let i = 0; i < conditions.length; i += 2) {
+    const operator = conditions[i] as NumericOperator;
+    const operand = conditions[i + 1];
+
+    if (!NUMERIC_OPERATORS.includes(operator) || typeof operand !== 'number') {
+      throw new Error(`Invalid numeric filter: ${JSON.stringify(conditions)}`);
+    }
+
+    const matches =
+      (operator === '=' && value === operand) ||
+      (operator === '<' && value < operand) ||
+      (operator === '<=' && value <= operand) ||
+      (operator === '>' && value > operand) ||
+      (operator === '>=' && value >= operand);
+
+    if (!matches) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+// Returns true when the value matches what `anything-but` excludes
+const matchAnythingBut = (operand: any, value: any): boolean => {
+  if (Array.isArray(operand)) {
+    return operand.some(excluded => excluded === value);
+  }
+  if (operand !== null && typeof operand === 'object') {
+    return matchOperator(operand, value);
+  }
+  return operand === value;
+};
@@ -0,0 +1,101 @@
+import { Message } from '@aws-sdk/client-sqs';
+import { SqsClientWrapper } from './client';
+import { QueueManager } from './queue-manager';
+import { parseRedrivePolicy } from './dead-letter';
+import { MAX_RECEIVE_MESSAGES } from './limits';
+
+export interface QueueSummary {
+  queueName: string;
+  exists: boolean;
+  visible?: number;
+  inFlight?: number;
+  delayed?: number;
+  dlqName?: string;
+  dlqDepth?: number;
+  handlers: string[];
+}
+
+export interface PeekOptions {
+  // Number of messages to show
+  count?: number;
+  // Seconds the peeked messages stay hidden from pollers
+  visibilityTimeout?: number;
+}
+
+/**
+ * Read-only views of the local queues: approximate message counts and
+ * messages received without being deleted.
+ */
+export class QueueInspector {
+  private sqsClient: SqsClientWrapper;
+  private queueManager: QueueManager;
+
+  constructor(sqsClient: SqsClientWrapper, queueManager: QueueManager) {
+    this.sqsClient = sqsClient;
+    this.queueManager = queueManager;
+  }
+
+  async listQueues(resources?: any): Promise<QueueSummary[]> {
+    return Promise.all(this.queueManager.resolveQueues(resources).map(async (queue) => {
+      try {
+        const { attributes = {} } = await this.sqsClient.getQueueInfo(queue.queueName);
+        const redrivePolicy = parseRedrivePolicy(attributes.RedrivePolicy);
+        const dlqName = redrivePolicy?.deadLetterTargetArn.split(':').pop() ?? queue.dlqName;
+
+        return {
+          queueName: queue.queueName,
+          exists: true,
+          visible: Number(attributes.ApproximateNumberOfMessages || 0),
+          inFlight: Number(attributes.ApproximateNumberOfMessagesNotVisible || 0),
+          delayed: Number(attributes.ApproximateNumberOfMessagesDelayed || 0),
+          dlqName,
+          dlqDepth: dlqName ? await this.getDepth(dlqName) : undefined,
+          handlers: queue.handlers,
+        };
+      } catch {
+        return { queueName: queue.queueName, exists: false, dlqName: queue.dlqName, handlers: queue.handlers };
+      }
+    }));
+  }
+
+  /**
+   * Receives up to `count` messages without deleting them. With the default
+   * visibility timeout of 0 they stay available to pollers, but every peek
+   * still counts as a receive.
+   */
+  async peek(queueName: string, options: PeekOptions = {}): Promise<Message[]> {
+    const count = options.count ?? MAX_RECEIVE_MESSAGES;
+    const { queueUrl } = await this.sqsClient.getQueueInfo(queueName);
+    const peeked = new Map<string, Message>();
+
+    // Visible messages can be returned again, so keep receiving until nothing new arrives
+    while (peeked.size < count) {
+      const messages = await this.sqsClient.receiveMessages(
+        queueUrl,
+        Math.min(count - peeked.size, MAX_RECEIVE_MESSAGES),
+        options.visibilityTimeout ?? 0,
+        0
+      );
+
+      const unseen = messages.filter(message => !peeked.has(message.MessageId!));
+      if (unseen.length === 0) {
+        break;
+      }
+      for (const message of unseen) {
+        peeked.set(message.MessageId!, message);
+      }
+    }
+
+    return Array.from(peeked.values()).slice(0, count);
+  }
+
+  // Visible messages of a queue, or undefined when it does not exist
+  private async getDepth(queueName: string): Promise<number | undefined> {
+    try {
+      const { attributes = {} } = await this.sqsClient.getQueueInfo(queueName);
+      return Number(attributes.ApproximateNumberOfMessages || 0);
+    } catch {
+      return undefined;
+    }
+  }
+}
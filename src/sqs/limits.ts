@@ -0,0 +1,8 @@
+// SQS caps a single ReceiveMessage call at 10 messages
+export const MAX_RECEIVE_MESSAGES = 10;
+
+// SQS batch actions accept at most 10 entries per request
+export const MAX_BATCH_ENTRIES = 10;
+
+// SQS accepts at most 10 message attributes per message
+export const MAX_MESSAGE_ATTRIBUTES = 10;
@@ -0,0 +1,723 @@
+import { createHash, randomUUID } from 'crypto';
+import {
+  BatchResultErrorEntry,
+  ChangeMessageVisibilityBatchCommandInput,
+  ChangeMessageVisibilityCommandInput,
+  CreateQueueCommandInput,
+  DeleteMessageBatchCommandInput,
+  DeleteMessageCommandInput,
+  DeleteQueueCommandInput,
+  GetQueueAttributesCommandInput,
+  GetQueueUrlCommandInput,
+  ListQueuesCommandInput,
+  Message,
+  MessageAttributeValue,
+  PurgeQueueCommandInput,
+  ReceiveMessageCommandInput,
+  SendMessageBatchCommandInput,
+  SendMessageCommandInput,
+  SetQueueAttributesCommandInput,
+} from '@aws-sdk/client-sqs';
+import { SqsBackend, SqsServiceError } from './backend';
+import { parseRedrivePolicy, RedrivePolicy } from './dead-letter';
+import { MAX_BATCH_ENTRIES, MAX_MESSAGE_ATTRIBUTES, MAX_RECEIVE_MESSAGES } from './limits';
+import { isFifoQueueName } from '../utils/queue-name';
+
+const ACCOUNT_ID = '000000000000';
+
+// FIFO queues drop messages whose deduplication ID was seen within this window
+const DEDUPLICATION_INTERVAL = 5 * 60 * 1000;
+
+const DEFAULT_ATTRIBUTES: Record<string, string> = {
+  VisibilityTimeout: '30',
+  DelaySeconds: '0',
+  MessageRetentionPeriod: '345600',
+  MaximumMessageSize: '262144',
+  ReceiveMessageWaitTimeSeconds: '0',
+};
+
+// Allowed range of the numeric queue attributes, as enforced by SQS
+const ATTRIBUTE_RANGES: Record<string, [number, number]> = {
+  VisibilityTimeout: [0, 43200],
+  DelaySeconds: [0, 900],
+  MessageRetentionPeriod: [60, 1209600],
+  MaximumMessageSize: [1024, 262144],
+  ReceiveMessageWaitTimeSeconds: [0, 20],
+  KmsDataKeyReusePeriodSeconds: [60, 86400],
+};
+
+const OTHER_ATTRIBUTES = new Set([
+  'RedrivePolicy',
+  'RedriveAllowPolicy',
+  'Policy',
+  'FifoQueue',
+  'ContentBasedDeduplication',
+  'DeduplicationScope',
+  'FifoThroughputLimit',
+  'KmsMasterKeyId',
+  'SqsManagedSseEnabled',
+]);
+
+interface StoredMessage {
+  messageId: string;
+  body: string;
+  attributes?: Record<string, MessageAttributeValue>;
+  sentAt: number;
+  visibleAt: number;
+  receiveCount: number;
+  firstReceivedAt?: number;
+  // Set on receive; only the latest handle can delete the message
+  receiptHandle?: string;
+  messageGroupId?: string;
+  messageDeduplicationId?: string;
+  sequenceNumber?: string;
+}
+
+interface SendResult {
+  MessageId: string;
+  MD5OfMessageBody: string;
+  MD5OfMessageAttributes?: string;
+  SequenceNumber?: string;
+}
+
+interface MemoryQueue {
+  name: string;
+  arn: string;
+  fifo: boolean;
+  attributes: Record<string, string>;
+  createdAt: number;
+  modifiedAt: number;
+  messages: StoredMessage[];
+  deduplication: Map<string, { result: SendResult; expiresAt: number }>;
+  sequence: number;
+  // Wakes up long polls waiting on the queue
+  waiters: Set<() => void>;
+}
+
+export interface MemoryBackendOptions {
+  region: string;
+  // Base of the queue URLs handed out, e.g. the address of a local SQS server
+  baseUrl?: string;
+}
+
+/**
+ * Keeps queues in the plugin's own process, for running without LocalStack.
+ * Models visibility timeouts, receive counts, redrive through RedrivePolicy,
+ * delays, retention, long polling and FIFO ordering and deduplication.
+ */
+export class MemorySqsBackend implements SqsBackend {
+  private queues = new Map<string, MemoryQueue>();
+  private region: string;
+  private baseUrl: string;
+
+  constructor(options: MemoryBackendOptions) {
+    this.region = options.region;
+    this.baseUrl = (options.baseUrl || `http://sqs.${options.region}.localhost`).replace(/\/+$/, '');
+  }
+
+  /**
+   * Changes the base of the queue URLs returned from now on. Queues are looked
+   * up by the last segment of their URL, so earlier URLs keep working.
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async createQueue(input: CreateQueueCommandInput) {
+    const name = input.QueueName || '';
+    if (!/^[a-zA-Z0-9_-]{1,80}$/.test(name.replace(/\.fifo$/, '')) || name.length > 80) {
+      throw new SqsServiceError(
+        'InvalidParameterValue',
+        'Can only include alphanumeric characters, hyphens, or underscores. 1 to 80 in length'
+      );
+    }
+
+    const fifo = isFifoQueueName(name);
+    const attributes = { ...input.Attributes } as Record<string, string>;
+    if ((attributes.FifoQueue === 'true') !== fifo) {
+      throw new SqsServiceError(
+        'InvalidParameterValue',
+        'The name of a FIFO queue can only include alphanumeric characters, hyphens, or underscores, ' +
+          'must end with .fifo suffix and the FifoQueue attribute must be set'
+      );
+    }
+    validateAttributes(attributes);
+
+    const existing = this.queues.get(name);
+    if (existing) {
+      if (Object.entries(attributes).some(([key, value]) => existing.attributes[key] !== value)) {
+        throw new SqsServiceError(
+          'QueueAlreadyExists',
+          `A queue already exists with the same name and a different value for attribute(s): ${name}`
+        );
+      }
+      return { QueueUrl: this.getQueueUrlFor(name) };
+    }
+
+    const now = Date.now();
+    this.queues.set(name, {
+      name,
+      arn: `arn:aws:sqs:${this.region}:${ACCOUNT_ID}:${name}`,
+      fifo,
+      attributes: { ...DEFAULT_ATTRIBUTES, ...attributes },
+      createdAt: now,
+      modifiedAt: now,
+      messages: [],
+      deduplication: new Map(),
+      sequence: 0,
+      waiters: new Set(),
+    });
+
+    return { QueueUrl: this.getQueueUrlFor(name) };
+  }
+
+  async getQueueUrl(input: GetQueueUrlCommandInput) {
+    const queue = this.queues.get(input.QueueName || '');
+    if (!queue) {
+      throw queueDoesNotExist();
+    }
+    return { QueueUrl: this.getQueueUrlFor(queue.name) };
+  }
+
+  async getQueueAttributes(input: GetQueueAttributesCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    const names: string[] = input.AttributeNames || [];
+    const now = Date.now();
+    this.expireMessages(queue, now);
+
+    const all: Record<string, string> = {
+      ...queue.attributes,
+      QueueArn: queue.arn,
+      ApproximateNumberOfMessages: count(queue, message => message.visibleAt <= now),
+      ApproximateNumberOfMessagesNotVisible: count(queue, message => message.visibleAt > now && !!message.receiptHandle),
+      ApproximateNumberOfMessagesDelayed: count(queue, message => message.visibleAt > now && !message.receiptHandle),
+      CreatedTimestamp: Math.floor(queue.createdAt / 1000).toString(),
+      LastModifiedTimestamp: Math.floor(queue.modifiedAt / 1000).toString(),
+    };
+
+    const attributes = names.includes('All')
+      ? all
+      : Object.fromEntries(names.filter(name => name in all).map(name => [name, all[name]]));
+
+    return { Attributes: Object.keys(attributes).length > 0 ? attributes : undefined };
+  }
+
+  async setQueueAttributes(input: SetQueueAttributesCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    const attributes = { ...input.Attributes } as Record<string, string>;
+
+    if ('FifoQueue' in attributes && (attributes.FifoQueue === 'true') !== queue.fifo) {
+      throw new SqsServiceError('InvalidAttributeName', 'FifoQueue cannot be changed after a queue is created');
+    }
+    validateAttributes(attributes);
+
+    for (const [name, value] of Object.entries(attributes)) {
+      // An empty policy removes it
+      if (value === '' && (name === 'RedrivePolicy' || name === 'RedriveAllowPolicy' || name === 'Policy')) {
+        delete queue.attributes[name];
+      } else {
+        queue.attributes[name] = value;
+      }
+    }
+    queue.modifiedAt = Date.now();
+
+    return {};
+  }
+
+  async receiveMessage(input: ReceiveMessageCommandInput, abortSignal?: AbortSignal) {
+    const maxMessages = input.MaxNumberOfMessages ?? 1;
+    if (maxMessages < 1 || maxMessages > MAX_RECEIVE_MESSAGES) {
+      throw new SqsServiceError(
+        'InvalidParameterValue',
+        `Value ${maxMessages} for parameter MaxNumberOfMessages is invalid. Must be between 1 and 10`
+      );
+    }
+
+    let queue = this.getQueue(input.QueueUrl);
+    const waitTimeSeconds = input.WaitTimeSeconds ?? Number(queue.attributes.ReceiveMessageWaitTimeSeconds);
+    checkRange('WaitTimeSeconds', waitTimeSeconds, 0, 20);
+    if (input.VisibilityTimeout !== undefined) {
+      checkRange('VisibilityTimeout', input.VisibilityTimeout, 0, 43200);
+    }
+
+    const deadline = Date.now() + waitTimeSeconds * 1000;
+
+    for (;;) {
+      if (abortSignal?.aborted) {
+        throw abortError();
+      }
+
+      // The queue can be deleted while a long poll waits on it
+      queue = this.getQueue(input.QueueUrl);
+      const visibilityTimeout = input.VisibilityTimeout ?? Number(queue.attributes.VisibilityTimeout);
+      const messages = this.takeMessages(queue, maxMessages, visibilityTimeout);
+
+      if (messages.length > 0) {
+        return { Messages: messages.map(message => toMessage(message, input)) };
+      }
+      if (Date.now() >= deadline) {
+        return {};
+      }
+
+      await this.waitForMessages(queue, deadline, abortSignal);
+    }
+  }
+
+  async deleteMessage(input: DeleteMessageCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    const receiptHandle = checkReceiptHandle(input.ReceiptHandle);
+
+    // Handles from an earlier receive succeed without deleting, as in SQS
+    const index = queue.messages.findIndex(message => message.receiptHandle === receiptHandle);
+    if (index >= 0) {
+      queue.messages.splice(index, 1);
+    }
+
+    return {};
+  }
+
+  async deleteMessageBatch(input: DeleteMessageBatchCommandInput) {
+    return this.runBatch(input.Entries, entry => this.deleteMessage({
+      QueueUrl: input.QueueUrl,
+      ReceiptHandle: entry.ReceiptHandle,
+    }).then(() => ({})));
+  }
+
+  async sendMessage(input: SendMessageCommandInput) {
+    return this.enqueue(this.getQueue(input.QueueUrl), input);
+  }
+
+  async sendMessageBatch(input: SendMessageBatchCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    return this.runBatch(input.Entries, async entry => this.enqueue(queue, { ...entry, QueueUrl: input.QueueUrl }));
+  }
+
+  async changeMessageVisibility(input: ChangeMessageVisibilityCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    const receiptHandle = checkReceiptHandle(input.ReceiptHandle);
+    const visibilityTimeout = input.VisibilityTimeout ?? 0;
+    checkRange('VisibilityTimeout', visibilityTimeout, 0, 43200);
+
+    const now = Date.now();
+    const message = queue.messages.find(candidate => candidate.receiptHandle === receiptHandle);
+    if (!message || message.visibleAt <= now) {
+      throw new SqsServiceError('MessageNotInflight', 'The message referred to is not in flight.');
+    }
+
+    message.visibleAt = now + visibilityTimeout * 1000;
+    if (visibilityTimeout === 0) {
+      notify(queue);
+    }
+
+    return {};
+  }
+
+  async changeMessageVisibilityBatch(input: ChangeMessageVisibilityBatchCommandInput) {
+    return this.runBatch(input.Entries, entry => this.changeMessageVisibility({
+      QueueUrl: input.QueueUrl,
+      ReceiptHandle: entry.ReceiptHandle,
+      VisibilityTimeout: entry.VisibilityTimeout,
+    }).then(() => ({})));
+  }
+
+  async listQueues(input: ListQueuesCommandInput) {
+    const names = Array.from(this.queues.keys())
+      .filter(name => !input.QueueNamePrefix || name.startsWith(input.QueueNamePrefix))
+      .sort()
+      .slice(0, input.MaxResults ?? 1000);
+
+    return { QueueUrls: names.length > 0 ? names.map(name => this.getQueueUrlFor(name)) : undefined };
+  }
+
+  async purgeQueue(input: PurgeQueueCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    queue.messages = [];
+    return {};
+  }
+
+  async deleteQueue(input: DeleteQueueCommandInput) {
+    const queue = this.getQueue(input.QueueUrl);
+    this.queues.delete(queue.name);
+    notify(queue);
+    return {};
+  }
+
+  private getQueue(queueUrl?: string): MemoryQueue {
+    const name = (queueUrl || '').split('/').pop() || '';
+    const queue = this.queues.get(name);
+    if (!queue) {
+      throw queueDoesNotExist();
+    }
+    return queue;
+  }
+
+  private getQueueUrlFor(name: string): string {
+    return `${this.baseUrl}/${ACCOUNT_ID}/${name}`;
+  }
+
+  private enqueue(queue: MemoryQueue, entry: SendMessageCommandInput): SendResult {
+    const now = Date.now();
+    const body = entry.MessageBody ?? '';
+    const attributes = entry.MessageAttributes && Object.keys(entry.MessageAttributes).length > 0
+      ? entry.MessageAttributes
+      : undefined;
+
+    validateMessage(body, attributes, Number(queue.attributes.MaximumMessageSize));
+    this.expireMessages(queue, now);
+
+    let messageDeduplicationId: string | undefined;
+    if (queue.fifo) {
+      if (!entry.MessageGroupId) {
+        throw new SqsServiceError('MissingParameter', 'The request must contain the parameter MessageGroupId.');
+      }
+      if (entry.DelaySeconds) {
+        throw new SqsServiceError(
+          'InvalidParameterValue',
+          `Value ${entry.DelaySeconds} for parameter DelaySeconds is invalid. ` +
+            'Reason: The request include parameter that is not valid for this queue type.'
+        );
+      }
+
+      messageDeduplicationId = entry.MessageDeduplicationId ||
+        (queue.attributes.ContentBasedDeduplication === 'true' ? sha256(body) : undefined);
+      if (!messageDeduplicationId) {
+        throw new SqsServiceError(
+          'InvalidParameterValue',
+          'The queue should either have ContentBasedDeduplication enabled or MessageDeduplicationId provided explicitly'
+        );
+      }
+
+      const duplicate = queue.deduplication.get(messageDeduplicationId);
+      if (duplicate) {
+        return duplicate.result;
+      }
+    }
+
+    const delaySeconds = entry.DelaySeconds ?? Number(queue.attributes.DelaySeconds);
+    checkRange('DelaySeconds', delaySeconds, 0, 900);
+
+    const message: StoredMessage = {
+      messageId: randomUUID(),
+      body,
+      attributes,
+      sentAt: now,
+      visibleAt: now + delaySeconds * 1000,
+      receiveCount: 0,
+    };
+    if (queue.fifo) {
+      message.messageGroupId = entry.MessageGroupId;
+      message.messageDeduplicationId = messageDeduplicationId;
+      message.sequenceNumber = (++queue.sequence).toString().padStart(20, '0');
+    }
+
+    queue.messages.push(message);
+
+    const result: SendResult = {
+      MessageId: message.messageId,
+      MD5OfMessageBody: md5(body),
+      MD5OfMessageAttributes: attributes ? md5OfMessageAttributes(attributes) : undefined,
+      SequenceNumber: message.sequenceNumber,
+    };
+    if (messageDeduplicationId) {
+      queue.deduplication.set(messageDeduplicationId, { result, expiresAt: now + DEDUPLICATION_INTERVAL });
+    }
+
+    notify(queue);
+    return result;
+  }
+
+  /**
+   * Marks up to `maxMessages` visible messages as received, in send order.
+   * In FIFO queues a message group stays blocked while one of its messages is
+   * in flight. Messages that reached the RedrivePolicy's maxReceiveCount move
+   * to the DLQ instead of being received again.
+   */
+  private takeMessages(queue: MemoryQueue, maxMessages: number, visibilityTimeout: number): StoredMessage[] {
+    const now = Date.now();
+    this.expireMessages(queue, now);
+
+    const redrivePolicy = parseRedrivePolicy(queue.attributes.RedrivePolicy);
+    const blockedGroups = new Set<string>();
+    const taken: StoredMessage[] = [];
+
+    for (const message of [...queue.messages]) {
+      if (taken.length >= maxMessages) {
+        break;
+      }
+
+      const group = queue.fifo ? message.messageGroupId : undefined;
+      if (message.visibleAt > now) {
+        if (group) {
+          blockedGroups.add(group);
+        }
+        continue;
+      }
+      if (group && blockedGroups.has(group)) {
+        continue;
+      }
+
+      if (redrivePolicy && message.receiveCount >= redrivePolicy.maxReceiveCount &&
+          this.moveToDeadLetterQueue(queue, message, redrivePolicy)) {
+        continue;
+      }
+
+      message.receiveCount++;
+      message.firstReceivedAt ??= now;
+      message.receiptHandle = `${message.messageId}#${randomUUID()}`;
+      message.visibleAt = now + visibilityTimeout * 1000;
+      taken.push(message);
+    }
+
+    return taken;
+  }
+
+  // Returns false when the DLQ does not exist, leaving the message where it is
+  private moveToDeadLetterQueue(queue: MemoryQueue, message: StoredMessage, redrivePolicy: RedrivePolicy): boolean {
+    const deadLetterQueue = this.queues.get(redrivePolicy.deadLetterTargetArn.split(':').pop() || '');
+    if (!deadLetterQueue) {
+      return false;
+    }
+
+    queue.messages.splice(queue.messages.indexOf(message), 1);
+    deadLetterQueue.messages.push({
+      messageId: message.messageId,
+      body: message.body,
+      attributes: message.attributes,
+      sentAt: message.sentAt,
+      visibleAt: Date.now(),
+      receiveCount: 0,
+      messageGroupId: deadLetterQueue.fifo ? message.messageGroupId : undefined,
+      messageDeduplicationId: deadLetterQueue.fifo ? message.messageDeduplicationId : undefined,
+      sequenceNumber: deadLetterQueue.fifo ? (++deadLetterQueue.sequence).toString().padStart(20, '0') : undefined,
+    });
+
+    notify(deadLetterQueue);
+    return true;
+  }
+
+  private expireMessages(queue: MemoryQueue, now: number): void {
+    const retention = Number(queue.attributes.MessageRetentionPeriod) * 1000;
+    queue.messages = queue.messages.filter(message => message.sentAt + retention > now);
+
+    for (const [id, entry] of queue.deduplication) {
+      if (entry.expiresAt <= now) {
+        queue.deduplication.delete(id);
+      }
+    }
+  }
+
+  // Resolves when a message may have become available, the deadline passed or the receive was aborted
+  private waitForMessages(queue: MemoryQueue, deadline: number, abortSignal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const nextVisibleAt = Math.min(
+      deadline,
+      ...queue.messages.filter(message => message.visibleAt > now).map(message => message.visibleAt)
+    );
+
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        queue.waiters.delete(done);
+        abortSignal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, Math.max(0, nextVisibleAt - now));
+      queue.waiters.add(done);
+      abortSignal?.addEventListener('abort', done);
+    });
+  }
+
+  private async runBatch<T extends { Id?: string }, R>(
+    entries: T[] | undefined,
+    run: (entry: T) => Promise<R>
+  ): Promise<{ Successful: (R & { Id: string })[]; Failed: BatchResultErrorEntry[] }> {
+    if (!entries || entries.length === 0) {
+      throw new SqsServiceError('EmptyBatchRequest', 'There should be at least one entry in the request.');
+    }
+    if (entries.length > MAX_BATCH_ENTRIES) {
+      throw new SqsServiceError(
+        'TooManyEntriesInBatchRequest',
+        `Maximum number of entries per request are 10. You have sent ${entries.length}.`
+      );
+    }
+    if (new Set(entries.map(entry => entry.Id)).size !== entries.length) {
+      throw new SqsServiceError('BatchEntryIdsNotDistinct', 'Two or more batch entries in the request have the same Id.');
+    }
+
+    const successful: (R & { Id: string })[] = [];
+    const failed: BatchResultErrorEntry[] = [];
+
+    for (const entry of entries) {
+      try {
+        successful.push({ ...(await run(entry)), Id: entry.Id! });
+      } catch (error: any) {
+        if (!(error instanceof SqsServiceError)) {
+          throw error;
+        }
+        failed.push({ Id: entry.Id, SenderFault: error.senderFault, Code: error.name, Message: error.message });
+      }
+    }
+
+    return { Successful: successful, Failed: failed };
+  }
+}
+
+const validateAttributes = (attributes: Record<string, string>): void => {
+  for (const [name, value] of Object.entries(attributes)) {
+    const range = ATTRIBUTE_RANGES[name];
+    if (range) {
+      checkRange(name, Number(value), range[0], range[1]);
+    } else if (!OTHER_ATTRIBUTES.has(name)) {
+      throw new SqsServiceError('InvalidAttributeName', `Unknown Attribute ${name}.`);
+    }
+  }
+
+  if (attributes.RedrivePolicy && !parseRedrivePolicy(attributes.RedrivePolicy)) {
+    throw new SqsServiceError(
+      'InvalidParameterValue',
+      `Value ${attributes.RedrivePolicy} for parameter RedrivePolicy is invalid.`
+    );
+  }
+};
+
+const validateMessage = (
+  body: string,
+  attributes: Record<string, MessageAttributeValue> | undefined,
+  maximumSize: number
+): void => {
+  if (body.length === 0) {
+    throw new SqsServiceError('MissingParameter', 'The request must contain the parameter MessageBody.');
+  }
+
+  let size = Buffer.byteLength(body);
+  const entries = Object.entries(attributes || {});
+  if (entries.length > MAX_MESSAGE_ATTRIBUTES) {
+    throw new SqsServiceError(
+      'InvalidParameterValue',
+      `Number of message attributes [${entries.length}] exceeds the allowed maximum [${MAX_MESSAGE_ATTRIBUTES}].`
+    );
+  }
+
+  for (const [name, value] of entries) {
+    const type = value.DataType || '';
+    if (!/^(String|Number|Binary)(\..+)?$/.test(type)) {
+      throw new SqsServiceError('InvalidParameterValue', `The type of message attribute '${name}' is invalid.`);
+    }
+    if (value.StringValue === undefined && value.BinaryValue === undefined) {
+      throw new SqsServiceError('InvalidParameterValue', `Message attribute '${name}' must contain a non-empty value.`);
+    }
+    size += Buffer.byteLength(name) + Buffer.byteLength(type) +
+      (value.BinaryValue ? value.BinaryValue.length : Buffer.byteLength(value.StringValue || ''));
+  }
+
+  if (size > maximumSize) {
+    throw new SqsServiceError(
+      'InvalidParameterValue',
+      `One or more parameters are invalid. Reason: Message must be shorter than ${maximumSize} bytes.`
+    );
+  }
+};
+
+const checkRange = (name: string, value: number, min: number, max: number): void => {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    throw new SqsServiceError(
+      'InvalidParameterValue',
+      `Value ${value} for parameter ${name} is invalid. Reason: Must be between ${min} and ${max}.`
+    );
+  }
+};
+
+const checkReceiptHandle = (receiptHandle?: string): string => {
+  if (!receiptHandle || !receiptHandle.includes('#')) {
+    throw new SqsServiceError('ReceiptHandleIsInvalid', `The input receipt handle "${receiptHandle}" is not valid.`);
+  }
+  return receiptHandle;
+};
+
+const toMessage = (message: StoredMessage, input: ReceiveMessageCommandInput): Message => {
+  const systemAttributes: Record<string, string | undefined> = {
+    SenderId: ACCOUNT_ID,
+    SentTimestamp: message.sentAt.toString(),
+    ApproximateReceiveCount: message.receiveCount.toString(),
+    ApproximateFirstReceiveTimestamp: message.firstReceivedAt?.toString(),
+    MessageGroupId: message.messageGroupId,
+    MessageDeduplicationId: message.messageDeduplicationId,
+    SequenceNumber: message.sequenceNumber,
+  };
+
+  const requested: string[] = [...(input.AttributeNames || []), ...(input.MessageSystemAttributeNames || [])];
+  const attributes = Object.fromEntries(
+    Object.entries(systemAttributes).filter(([name, value]) =>
+      value !== undefined && (requested.includes('All') || requested.includes(name))
+    )
+  ) as Record<string, string>;
+
+  const attributeNames = input.MessageAttributeNames || [];
+  const messageAttributes = Object.fromEntries(
+    Object.entries(message.attributes || {}).filter(([name]) => attributeNames.some(pattern =>
+      pattern === 'All' || pattern === '.*' || pattern === name ||
+        (pattern.endsWith('.*') && name.startsWith(pattern.slice(0, -1)))
+    ))
+  );
+  const hasMessageAttributes = Object.keys(messageAttributes).length > 0;
+
+  return {
+    MessageId: message.messageId,
+    ReceiptHandle: message.receiptHandle,
+    MD5OfBody: md5(message.body),
+    Body: message.body,
+    Attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+    MessageAttributes: hasMessageAttributes ? messageAttributes : undefined,
+    MD5OfMessageAttributes: hasMessageAttributes ? md5OfMessageAttributes(messageAttributes) : undefined,
+  };
+};
+
+const count = (queue: MemoryQueue, predicate: (message: StoredMessage) => boolean): string => {
+  return queue.messages.filter(predicate).length.toString();
+};
+
+const notify = (queue: MemoryQueue): void => {
+  for (const waiter of [...queue.waiters]) {
+    waiter();
+  }
+};
+
+const queueDoesNotExist = (): SqsServiceError => {
+  return new SqsServiceError('QueueDoesNotExist', 'The specified queue does not exist.');
+};
+
+const abortError = (): Error => {
+  const error = new Error('Request aborted');
+  error.name = 'AbortError';
+  return error;
+};
+
+const md5 = (value: string | Buffer): string => createHash('md5').update(value).digest('hex');
+
+const sha256 = (value: string): string => createHash('sha256').update(value).digest('hex');
+
+// The digest SQS computes over message attributes
+const md5OfMessageAttributes = (attributes: Record<string, MessageAttributeValue>): string => {
+  const parts: Buffer[] = [];
+  const encode = (value: string | Uint8Array) => {
+    const bytes = typeof value === 'string' ? Buffer.from(value, 'utf8') : Buffer.from(value);
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(bytes.length);
+    parts.push(length, bytes);
+  };
+
+  for (const name of Object.keys(attributes).sort()) {
+    const { DataType = '', StringValue, BinaryValue } = attributes[name];
+    encode(name);
+    encode(DataType);
+    if (BinaryValue !== undefined) {
+      parts.push(Buffer.from([2]));
+      encode(BinaryValue);
+    } else {
+      parts.push(Buffer.from([1]));
+      encode(StringValue ?? '');
+    }
+  }
+
+  return md5(Buffer.concat(parts));
+};
@@ -1,26 +1,65 @@
 import { Message } from '@aws-sdk/client-sqs';
 import { SqsClientWrapper, QueueInfo } from './client';
 import { LambdaInvoker, FunctionDefinition, HandlerResult } from '../lambda/invoker';
-import { EventBuilder } from '../lambda/event-builder';
+import { EventBuilder, SQSBatchResponse, SQSEvent } from '../lambda/event-builder';
 import { Logger } from '../utils/logger';
+import { ConcurrencyLimiter } from '../utils/concurrency-limiter';
+import { sleep } from '../utils/sleep';
 import { PluginConfig, QueueConfig } from '../config/defaults';
+import { buildDeadLetterQueueName, isFifoQueueName } from '../utils/queue-name';
+import { calculateRetryDelay } from './retry-policy';
+import { MAX_RECEIVE_MESSAGES } from './limits';
+import { evaluateFilterPatterns } from './filter';
+import { buildDeadLetterCopy, buildDeadLetterEnvelope, DeadLetterFailure, parseRedrivePolicy } from './dead-letter';
+
+// `open` once consecutive errors reach the threshold, `half-open` while reconnecting
+export type CircuitState = 'closed' | 'open' | 'half-open';
 
 export interface PollerState {
   isPolling: boolean;
+  isPaused: boolean;
   messageCount: number;
   errorCount: number;
+  consecutiveErrors: number;
+  circuitState: CircuitState;
+  circuitOpenedAt?: Date;
   lastPollTime?: Date;
   lastError?: string;
 }
 
+export interface InvocationRecord {
+  queueName: string;
+  handler: string;
+  functionName?: string;
+  messageIds: string[];
+  startedAt: Date;
+  duration: number;
+  success: boolean;
+  error?: string;
+  batchItemFailures?: string[];
+}
+
+interface QueuePoller {
+  queueConfig: QueueConfig;
+  queueInfo: QueueInfo;
+  abortController: AbortController;
+  loops: Promise<void>[];
+  // Shared by the loops, whose FIFO message groups run in parallel
+  invocationLimiter: ConcurrencyLimiter;
+}
+
 export class MessagePoller {
   private sqsClient: SqsClientWrapper;
   private lambdaInvoker: LambdaInvoker;
   private eventBuilder: EventBuilder;
   private logger: Logger;
   private config: PluginConfig;
-  private pollers: Map<string, NodeJS.Timeout> = new Map();
+  private pollers: Map<string, QueuePoller> = new Map();
   private pollerStates: Map<string, PollerState> = new Map();
+  private connectionLostListeners: Array<() => void> = [];
+  private invocationListeners: Array<(record: InvocationRecord) => void> = [];
+  // Messages that were deleted or handed back, so the heartbeat stops extending them
+  private settledMessages: WeakSet<Message> = new WeakSet();
 
   constructor(
     sqsClient: SqsClientWrapper,
@@ -47,87 +86,535 @@ export class MessagePoller {
     }
   }
 
-  private async startQueuePoller(queueConfig: QueueConfig): Promise<void> {
+  /**
+   * Starts polling a single queue while the others keep running, regardless
+   * of its `enabled` flag.
+   */
+  async addPoller(queueConfig: QueueConfig): Promise<boolean> {
+    return this.startQueuePoller(queueConfig);
+  }
+
+  /**
+   * Stops and forgets the pollers of a queue or function name, waiting for
+   * their in-flight invocations. Returns the IDs of the removed pollers.
+   */
+  async removePoller(target: string): Promise<string[]> {
+    const pollers = this.findPollers(target);
+
+    for (const [pollerId] of pollers) {
+      this.pollers.delete(pollerId);
+    }
+
+    await this.drainPollers(pollers, this.config.shutdownTimeout);
+
+    for (const [pollerId] of pollers) {
+      this.pollerStates.delete(pollerId);
+      this.logger.info(`Removed poller: ${pollerId}`);
+    }
+
+    return pollers.map(([pollerId]) => pollerId);
+  }
+
+  /**
+   * Stops receiving for a queue or function name but keeps its poller, so
+   * messages accumulate until it is resumed. Returns the paused poller IDs.
+   */
+  async pausePoller(target: string): Promise<string[]> {
+    const pollers = this.findPollers(target).filter(([pollerId]) => !this.pollerStates.get(pollerId)?.isPaused);
+
+    for (const [pollerId] of pollers) {
+      const state = this.pollerStates.get(pollerId);
+      if (state) {
+        state.isPaused = true;
+      }
+    }
+
+    await this.drainPollers(pollers, this.config.shutdownTimeout);
+
+    for (const [pollerId] of pollers) {
+      this.logger.info(`Paused poller: ${pollerId}`);
+    }
+
+    return pollers.map(([pollerId]) => pollerId);
+  }
+
+  /**
+   * Restarts the receive loops of paused pollers for a queue or function
+   * name. Returns the resumed poller IDs.
+   */
+  resumePoller(target: string): string[] {
+    const pollers = this.findPollers(target).filter(([pollerId]) => this.pollerStates.get(pollerId)?.isPaused);
+
+    for (const [pollerId, poller] of pollers) {
+      const state = this.pollerStates.get(pollerId)!;
+      state.isPaused = false;
+
+      // An open circuit restarts the loops itself once reconnected
+      if (state.circuitState === 'closed') {
+        state.isPolling = true;
+        this.startLoops(poller);
+      }
+      this.logger.info(`Resumed poller: ${pollerId}`);
+    }
+
+    return pollers.map(([pollerId]) => pollerId);
+  }
+
+  /**
+   * Registers a callback for when a poller's circuit opens, i.e. the SQS
+   * endpoint looks unreachable and the poller has stopped receiving.
+   */
+  onConnectionLost(listener: () => void): void {
+    this.connectionLostListeners.push(listener);
+  }
+
+  /**
+   * Registers a callback that receives a record of every handler invocation.
+   */
+  onInvocation(listener: (record: InvocationRecord) => void): void {
+    this.invocationListeners.push(listener);
+  }
+
+  /**
+   * Refreshes the queue URLs of pollers whose circuit is open and restarts
+   * their receive loops. Throws when any of them is still unreachable, so the
+   * caller can try again later.
+   */
+  async reconnect(): Promise<void> {
+    const pollers = Array.from(this.pollers.entries())
+      .filter(([pollerId]) => this.pollerStates.get(pollerId)?.circuitState === 'open');
+    const failed: string[] = [];
+
+    for (const [pollerId, poller] of pollers) {
+      const state = this.pollerStates.get(pollerId)!;
+      state.circuitState = 'half-open';
+
+      try {
+        poller.queueInfo = await this.sqsClient.getQueueInfo(poller.queueConfig.queueName);
+      } catch (error: any) {
+        state.circuitState = 'open';
+        state.lastError = error.message;
+        failed.push(pollerId);
+        continue;
+      }
+
+      // Removed or stopped while the queue info was loading
+      if (this.pollers.get(pollerId) !== poller) {
+        continue;
+      }
+
+      state.circuitState = 'closed';
+      state.consecutiveErrors = 0;
+      state.circuitOpenedAt = undefined;
+
+      if (!state.isPaused) {
+        state.isPolling = true;
+        this.startLoops(poller);
+      }
+      this.logger.info(`Reconnected poller: ${pollerId}`);
+    }
+
+    if (failed.length > 0) {
+      throw new Error(`Failed to reconnect ${failed.length} poller(s): ${failed.join(', ')}`);
+    }
+  }
+
+  private findPollers(target: string): [string, QueuePoller][] {
+    return Array.from(this.pollers.entries()).filter(([, poller]) => (
+      poller.queueConfig.queueName === target || poller.queueConfig.functionName === target
+    ));
+  }
+
+  private async startQueuePoller(queueConfig: QueueConfig): Promise<boolean> {
     const { queueName, handler } = queueConfig;
     const pollerId = `${queueName}-${handler}`;
 
     if (this.pollers.has(pollerId)) {
       this.logger.warn(`Poller already running for queue: ${queueName}`);
-      return;
+      return false;
     }
 
     try {
       const queueInfo = await this.sqsClient.getQueueInfo(queueName);
+
+      if (this.pollers.has(pollerId)) {
+        this.logger.warn(`Poller already running for queue: ${queueName}`);
+        return false;
+      }
       
       this.pollerStates.set(pollerId, {
         isPolling: true,
+        isPaused: false,
         messageCount: 0,
         errorCount: 0,
+        consecutiveErrors: 0,
+        circuitState: 'closed',
       });
 
-      this.logger.info(`Started polling queue: ${queueName} -> ${handler}`);
-      
-      const poller = setInterval(async () => {
-        await this.pollQueue(queueConfig, queueInfo);
-      }, this.config.pollInterval);
+      this.warnOnVisibilityTimeout(queueConfig);
 
+      const poller: QueuePoller = {
+        queueConfig,
+        queueInfo,
+        abortController: new AbortController(),
+        loops: [],
+        invocationLimiter: new ConcurrencyLimiter(this.getConcurrency(queueConfig)),
+      };
       this.pollers.set(pollerId, poller);
 
-      // Initial poll
-      setImmediate(() => this.pollQueue(queueConfig, queueInfo));
+      const concurrency = this.startLoops(poller);
+      this.logger.info(`Started polling queue: ${queueName} -> ${handler} (${concurrency} concurrent poller(s))`);
+      return true;
     } catch (error: any) {
       this.logger.error(`Failed to start poller for queue ${queueName}: ${error.message}`);
+      return false;
+    }
+  }
+
+  private startLoops(poller: QueuePoller): number {
+    const concurrency = this.getConcurrency(poller.queueConfig);
+
+    poller.abortController = new AbortController();
+    poller.loops = [];
+    for (let i = 0; i < concurrency; i++) {
+      poller.loops.push(this.runPollLoop(poller));
     }
+
+    return concurrency;
+  }
+
+  /**
+   * Each loop runs one invocation at a time, apart from FIFO message groups,
+   * which share the poller's invocation limiter; maximumConcurrency caps both.
+   */
+  private getConcurrency(queueConfig: QueueConfig): number {
+    return Math.min(
+      queueConfig.maxConcurrentPolls || this.config.maxConcurrentPolls,
+      queueConfig.maximumConcurrency ?? Infinity
+    );
   }
 
-  private async pollQueue(queueConfig: QueueConfig, queueInfo: QueueInfo): Promise<void> {
+  /**
+   * Receives and processes messages back to back until the poller is aborted.
+   * Each cycle is awaited, so a loop never has more than one receive or
+   * invocation outstanding; `pollInterval` only applies after an empty receive.
+   * Failed polls back off exponentially, and the circuit opens after
+   * `circuitBreakerThreshold` consecutive failures.
+   */
+  private async runPollLoop(poller: QueuePoller): Promise<void> {
+    const { signal } = poller.abortController;
+    const pollerId = `${poller.queueConfig.queueName}-${poller.queueConfig.handler}`;
+
+    while (!signal.aborted) {
+      const received = await this.pollQueue(poller.queueConfig, poller.queueInfo, signal);
+      const state = this.pollerStates.get(pollerId);
+
+      if (signal.aborted || !state) {
+        break;
+      }
+
+      if (state.consecutiveErrors >= this.config.circuitBreakerThreshold) {
+        this.openCircuit(pollerId, poller, state);
+        break;
+      }
+
+      if (state.consecutiveErrors > 0) {
+        await sleep(this.getErrorBackoff(state.consecutiveErrors), signal);
+      } else if (received === 0) {
+        await sleep(this.config.pollInterval, signal);
+      }
+    }
+  }
+
+  private getErrorBackoff(consecutiveErrors: number): number {
+    return Math.min(
+      this.config.pollInterval * Math.pow(2, consecutiveErrors - 1),
+      this.config.maxErrorBackoff
+    );
+  }
+
+  /**
+   * Stops every loop of the poller and notifies the connection-lost
+   * listeners; the poller stays registered until `reconnect` restarts it.
+   */
+  private openCircuit(pollerId: string, poller: QueuePoller, state: PollerState): void {
+    state.circuitState = 'open';
+    state.circuitOpenedAt = new Date();
+    state.isPolling = false;
+    poller.abortController.abort();
+
+    this.logger.warn(
+      `Circuit opened for queue ${poller.queueConfig.queueName} after ${state.consecutiveErrors} consecutive errors: ${state.lastError}`
+    );
+
+    for (const listener of this.connectionLostListeners) {
+      listener();
+    }
+  }
+
+  private async pollQueue(queueConfig: QueueConfig, queueInfo: QueueInfo, signal?: AbortSignal): Promise<number> {
     const { queueName, handler } = queueConfig;
     const pollerId = `${queueName}-${handler}`;
     const state = this.pollerStates.get(pollerId);
 
     if (!state || !state.isPolling) {
-      return;
+      return 0;
     }
 
+    // Keeps every received message hidden until it is settled, including
+    // those still waiting behind the one being invoked
+    const received: Message[] = [];
+    const heartbeat = this.startHeartbeat(received, queueConfig, queueInfo);
+
     try {
       state.lastPollTime = new Date();
-      
-      const messages = await this.sqsClient.receiveMessages(
-        queueInfo.queueUrl,
-        queueConfig.batchSize || 1,
-        queueConfig.visibilityTimeout || this.config.visibilityTimeout,
-        queueConfig.waitTimeSeconds || this.config.waitTimeSeconds
-      );
+
+      const messages = await this.receiveBatch(queueConfig, queueInfo, state, received, signal);
+      state.consecutiveErrors = 0;
 
       if (messages.length === 0) {
         this.logger.debug(`No messages received from queue: ${queueName}`);
-        return;
+        return 0;
+      }
+
+      // Stopped while receiving: hand the messages back instead of starting work
+      if (signal?.aborted) {
+        await this.releaseMessages(messages, queueInfo);
+        return messages.length;
       }
 
       this.logger.debug(`Received ${messages.length} message(s) from queue: ${queueName}`);
       state.messageCount += messages.length;
 
-      await this.processMessages(messages, queueConfig, queueInfo);
+      const accepted = await this.filterMessages(messages, queueConfig, queueInfo);
+      if (accepted.length > 0) {
+        await this.processMessages(accepted, queueConfig, queueInfo, signal);
+      }
+      return messages.length;
     } catch (error: any) {
       state.errorCount++;
+      state.consecutiveErrors++;
       state.lastError = error.message;
       this.logger.error(`Error polling queue ${queueName}: ${error.message}`);
+      return 0;
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  /**
+   * Receives up to `batchSize` messages. With a `maximumBatchingWindow`, keeps
+   * receiving after the first message arrives until the batch is full or the
+   * window has elapsed, as the Lambda event source mapping does. Messages are
+   * collected into `messages` as they arrive.
+   */
+  private async receiveBatch(
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo,
+    state: PollerState,
+    messages: Message[],
+    signal?: AbortSignal
+  ): Promise<Message[]> {
+    const batchSize = queueConfig.batchSize || 1;
+    const visibilityTimeout = this.getVisibilityTimeout(queueConfig);
+    const waitTimeSeconds = queueConfig.waitTimeSeconds || this.config.waitTimeSeconds;
+    const windowMs = (queueConfig.maximumBatchingWindow || 0) * 1000;
+
+    messages.push(...await this.sqsClient.receiveMessages(
+      queueInfo.queueUrl,
+      Math.min(batchSize, MAX_RECEIVE_MESSAGES),
+      visibilityTimeout,
+      waitTimeSeconds,
+      signal
+    ));
+
+    if (windowMs === 0 || messages.length === 0) {
+      return messages;
+    }
+
+    const deadline = Date.now() + windowMs;
+
+    while (messages.length < batchSize && state.isPolling) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        break;
+      }
+
+      const received = await this.sqsClient.receiveMessages(
+        queueInfo.queueUrl,
+        Math.min(batchSize - messages.length, MAX_RECEIVE_MESSAGES),
+        visibilityTimeout,
+        // Rounded up, so the last second of the window is still a long poll
+        Math.min(waitTimeSeconds, Math.ceil(remainingMs / 1000)),
+        signal
+      );
+      messages.push(...received);
+    }
+
+    return messages;
+  }
+
+  /**
+   * Applies the queue's filter criteria. Like Lambda, messages that match no
+   * pattern are deleted without invoking the handler.
+   */
+  private async filterMessages(
+    messages: Message[],
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo
+  ): Promise<Message[]> {
+    if (!queueConfig.filterPatterns || queueConfig.filterPatterns.length === 0) {
+      return messages;
+    }
+
+    const patterns = queueConfig.filterPatterns;
+    const { Records: records } = this.eventBuilder.buildSQSEvent(messages, queueConfig.queueName);
+    const accepted: Message[] = [];
+    const rejected: Message[] = [];
+
+    messages.forEach((message, index) => {
+      const { matches, rejections } = evaluateFilterPatterns(records[index], patterns);
+      if (matches) {
+        accepted.push(message);
+      } else {
+        rejected.push(message);
+        this.logger.debug(
+          `Message ${message.MessageId} from ${queueConfig.queueName} filtered out by: ${rejections.join('; ')}`
+        );
+      }
+    });
+
+    if (rejected.length > 0) {
+      this.settleMessages(rejected);
+      await this.sqsClient.deleteMessages(queueInfo.queueUrl, rejected.map(message => message.ReceiptHandle!));
     }
+
+    return accepted;
   }
 
   private async processMessages(
+    messages: Message[],
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const invocationMode = queueConfig.invocationMode || this.config.invocationMode;
+
+    if (invocationMode === 'batch') {
+      await this.processBatch(messages, queueConfig, queueInfo);
+      return;
+    }
+
+    if (isFifoQueueName(queueInfo.queueName)) {
+      await this.processMessageGroups(messages, queueConfig, queueInfo, signal);
+      return;
+    }
+
+    // Concurrency comes from the number of poll loops, so each loop works
+    // through its own messages one at a time
+    for (let i = 0; i < messages.length; i++) {
+      if (signal?.aborted) {
+        await this.releaseMessages(messages.slice(i), queueInfo);
+        return;
+      }
+      await this.processMessage(messages[i], queueConfig, queueInfo);
+    }
+  }
+
+  /**
+   * Processes each FIFO message group strictly in order while the groups of
+   * a receive run in parallel, with no more invocations in flight across the
+   * poller's loops than its concurrency. A failure stops the rest of its group
+   * so later messages are redelivered after the failed one; other groups carry on.
+   */
+  private async processMessageGroups(
+    messages: Message[],
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const groups = new Map<string, Message[]>();
+    for (const message of messages) {
+      const groupId = message.Attributes?.MessageGroupId || '';
+      groups.set(groupId, [...(groups.get(groupId) || []), message]);
+    }
+
+    const limiter = this.pollers.get(`${queueConfig.queueName}-${queueConfig.handler}`)?.invocationLimiter
+      ?? new ConcurrencyLimiter(this.getConcurrency(queueConfig));
+    const unprocessed: Message[] = [];
+
+    const processGroup = async (groupId: string, groupMessages: Message[]) => {
+      for (let i = 0; i < groupMessages.length; i++) {
+        // Stopping may happen while the group waits for a free slot
+        const succeeded = await limiter.run(async () => (
+          signal?.aborted ? undefined : this.processMessage(groupMessages[i], queueConfig, queueInfo)
+        ));
+        if (succeeded === undefined) {
+          unprocessed.push(...groupMessages.slice(i));
+          return;
+        }
+        if (!succeeded) {
+          const skipped = groupMessages.length - i - 1;
+          if (skipped > 0) {
+            this.logger.debug(
+              `Skipping ${skipped} remaining message(s) in group ${groupId} of ${queueConfig.queueName} after failure`
+            );
+          }
+          return;
+        }
+      }
+    };
+
+    await Promise.all(Array.from(groups.entries()).map(([groupId, groupMessages]) => processGroup(groupId, groupMessages)));
+    await this.releaseMessages(unprocessed, queueInfo);
+  }
+
+  /**
+   * Makes received-but-unprocessed messages visible again right away when
+   * shutting down, instead of leaving them hidden until their visibility
+   * timeout expires.
+   */
+  private async releaseMessages(messages: Message[], queueInfo: QueueInfo): Promise<void> {
+    this.settleMessages(messages);
+    if (messages.length === 0 || !this.config.releaseOnShutdown) {
+      return;
+    }
+
+    try {
+      await this.sqsClient.changeMessageVisibilityBatch(
+        queueInfo.queueUrl,
+        messages.map(message => ({ receiptHandle: message.ReceiptHandle!, visibilityTimeout: 0 }))
+      );
+      this.logger.info(`Released ${messages.length} unprocessed message(s) back to queue: ${queueInfo.queueName}`);
+    } catch (error: any) {
+      this.logger.warn(`Failed to release unprocessed messages in ${queueInfo.queueName}: ${error.message}`);
+    }
+  }
+
+  private async processBatch(
     messages: Message[],
     queueConfig: QueueConfig,
     queueInfo: QueueInfo
   ): Promise<void> {
-    const maxConcurrency = queueConfig.maxConcurrentPolls || this.config.maxConcurrentPolls;
+    const { queueName, handler } = queueConfig;
 
-    // Process messages in batches to respect concurrency limits
-    for (let i = 0; i < messages.length; i += maxConcurrency) {
-      const batch = messages.slice(i, i + maxConcurrency);
-      const promises = batch.map(message => this.processMessage(message, queueConfig, queueInfo));
-      
-      await Promise.all(promises);
+    try {
+      // Build SQS event with the whole batch
+      const sqsEvent = this.eventBuilder.buildSQSEvent(messages, queueName);
+
+      const functionDefinition: FunctionDefinition = {
+        handler,
+        functionName: queueConfig.functionName,
+      };
+
+      const result = await this.invoke(messages, queueConfig, sqsEvent, functionDefinition);
+
+      await this.handleInvocationResult(messages, result, queueConfig, queueInfo);
+    } catch (error: any) {
+      this.logger.error(`Unexpected error processing batch of ${messages.length} message(s) from ${queueName}: ${error.message}`);
+      for (const message of messages) {
+        await this.handleMessageFailure(message, queueConfig, queueInfo, error);
+      }
     }
   }
 
@@ -135,7 +622,7 @@ export class MessagePoller {
     message: Message,
     queueConfig: QueueConfig,
     queueInfo: QueueInfo
-  ): Promise<void> {
+  ): Promise<boolean> {
     const { queueName, handler } = queueConfig;
 
     try {
@@ -145,28 +632,213 @@ export class MessagePoller {
       // Build function definition
       const functionDefinition: FunctionDefinition = {
         handler,
-        timeout: this.config.lambdaTimeout,
+        functionName: queueConfig.functionName,
       };
 
       // Invoke handler
-      const result: HandlerResult = await this.lambdaInvoker.invokeHandler(
-        handler,
-        sqsEvent,
-        functionDefinition
-      );
+      const result = await this.invoke([message], queueConfig, sqsEvent, functionDefinition);
 
-      if (result.success) {
-        // Delete message on successful processing
-        await this.sqsClient.deleteMessage(queueInfo.queueUrl, message.ReceiptHandle!);
-        this.logger.debug(`Successfully processed message ${message.MessageId} from queue: ${queueName}`);
-      } else {
-        // Handle failure - message will become visible again after visibility timeout
-        await this.handleMessageFailure(message, queueConfig, queueInfo, result.error);
-      }
+      return await this.handleInvocationResult([message], result, queueConfig, queueInfo);
     } catch (error: any) {
       this.logger.error(`Unexpected error processing message ${message.MessageId}: ${error.message}`);
       await this.handleMessageFailure(message, queueConfig, queueInfo, error);
+      return false;
+    }
+  }
+
+  private async invoke(
+    messages: Message[],
+    queueConfig: QueueConfig,
+    sqsEvent: SQSEvent,
+    functionDefinition: FunctionDefinition
+  ): Promise<HandlerResult> {
+    const startedAt = new Date();
+    const result = await this.lambdaInvoker.invokeHandler(queueConfig.handler, sqsEvent, functionDefinition);
+    this.notifyInvocation(messages, queueConfig, result, startedAt);
+    return result;
+  }
+
+  /**
+   * Extends the visibility of received messages every half visibility
+   * timeout until each one is settled, so messages don't get redelivered
+   * while a long-running handler works through the batch.
+   */
+  private startHeartbeat(messages: Message[], queueConfig: QueueConfig, queueInfo: QueueInfo): NodeJS.Timeout | undefined {
+    const visibilityTimeout = this.getVisibilityTimeout(queueConfig);
+    if (visibilityTimeout <= 0) {
+      return undefined;
+    }
+
+    return setInterval(() => {
+      const pending = messages.filter(message => !this.settledMessages.has(message));
+      if (pending.length > 0) {
+        this.extendVisibility(pending, visibilityTimeout, queueInfo);
+      }
+    }, Math.max(1, Math.floor(visibilityTimeout / 2)) * 1000);
+  }
+
+  private settleMessages(messages: Message[]): void {
+    for (const message of messages) {
+      this.settledMessages.add(message);
+    }
+  }
+
+  private notifyInvocation(messages: Message[], queueConfig: QueueConfig, result: HandlerResult, startedAt: Date): void {
+    if (this.invocationListeners.length === 0) {
+      return;
+    }
+
+    const batchItemFailures = result.result?.batchItemFailures;
+    const record: InvocationRecord = {
+      queueName: queueConfig.queueName,
+      handler: queueConfig.handler,
+      functionName: queueConfig.functionName,
+      messageIds: messages.map(message => message.MessageId!),
+      startedAt,
+      duration: Date.now() - startedAt.getTime(),
+      success: result.success,
+      error: result.error?.message,
+      batchItemFailures: Array.isArray(batchItemFailures)
+        ? batchItemFailures.map((failure: any) => String(failure?.itemIdentifier))
+        : undefined,
+    };
+
+    for (const listener of this.invocationListeners) {
+      listener(record);
+    }
+  }
+
+  private async extendVisibility(messages: Message[], visibilityTimeout: number, queueInfo: QueueInfo): Promise<void> {
+    try {
+      const changes = messages.map(message => ({
+        receiptHandle: message.ReceiptHandle!,
+        visibilityTimeout,
+      }));
+
+      if (changes.length === 1) {
+        await this.sqsClient.changeMessageVisibility(queueInfo.queueUrl, changes[0].receiptHandle, visibilityTimeout);
+      } else {
+        await this.sqsClient.changeMessageVisibilityBatch(queueInfo.queueUrl, changes);
+      }
+
+      this.logger.debug(`Extended visibility of ${messages.length} in-flight message(s) in ${queueInfo.queueName} by ${visibilityTimeout}s`);
+    } catch (error: any) {
+      this.logger.warn(`Failed to extend visibility for in-flight messages in ${queueInfo.queueName}: ${error.message}`);
+    }
+  }
+
+  private getVisibilityTimeout(queueConfig: QueueConfig): number {
+    return queueConfig.visibilityTimeout || this.config.visibilityTimeout;
+  }
+
+  private warnOnVisibilityTimeout(queueConfig: QueueConfig): void {
+    const visibilityTimeout = this.getVisibilityTimeout(queueConfig);
+    const functionTimeout = Math.ceil(this.lambdaInvoker.getFunctionTimeout({
+      handler: queueConfig.handler,
+      functionName: queueConfig.functionName,
+    }) / 1000);
+
+    // AWS rejects event source mappings where the function can outlive the visibility timeout
+    if (functionTimeout > visibilityTimeout) {
+      this.logger.warn(
+        `Function timeout (${functionTimeout}s) for ${queueConfig.handler} exceeds the visibility timeout (${visibilityTimeout}s) of queue ${queueConfig.queueName}. ` +
+        'Messages are kept in flight locally, but AWS requires the visibility timeout to be at least the function timeout.'
+      );
+    }
+  }
+
+  private async handleInvocationResult(
+    messages: Message[],
+    result: HandlerResult,
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo
+  ): Promise<boolean> {
+    const { queueName } = queueConfig;
+
+    if (!result.success) {
+      // Handle failure - messages will become visible again after visibility timeout
+      for (const message of messages) {
+        await this.handleMessageFailure(message, queueConfig, queueInfo, result.error);
+      }
+      return false;
+    }
+
+    const failedIds = queueConfig.functionResponseType === 'ReportBatchItemFailures'
+      ? this.getBatchItemFailures(result.result, messages, queueName)
+      : new Set<string>();
+
+    const succeeded = messages.filter(message => !failedIds.has(message.MessageId!));
+    const failed = messages.filter(message => failedIds.has(message.MessageId!));
+
+    // Delete successfully processed messages
+    this.settleMessages(succeeded);
+    if (succeeded.length === 1) {
+      await this.sqsClient.deleteMessage(queueInfo.queueUrl, succeeded[0].ReceiptHandle!);
+    } else if (succeeded.length > 1) {
+      await this.sqsClient.deleteMessages(queueInfo.queueUrl, succeeded.map(message => message.ReceiptHandle!));
+    }
+
+    for (const message of succeeded) {
+      this.logger.debug(`Successfully processed message ${message.MessageId} from queue: ${queueName}`);
+    }
+
+    // Leave reported failures on the queue for redelivery or DLQ
+    for (const message of failed) {
+      await this.handleMessageFailure(
+        message,
+        queueConfig,
+        queueInfo,
+        new Error('Message reported in batchItemFailures')
+      );
+    }
+
+    return failed.length === 0;
+  }
+
+  /**
+   * Resolves the message IDs a handler reported as failed, following the
+   * Lambda ReportBatchItemFailures contract: an empty or missing response is
+   * a full success, while a malformed response fails the whole batch.
+   */
+  private getBatchItemFailures(response: any, messages: Message[], queueName: string): Set<string> {
+    const allIds = new Set(messages.map(message => message.MessageId!));
+
+    if (response === undefined || response === null) {
+      return new Set();
+    }
+
+    if (typeof response !== 'object' || Array.isArray(response)) {
+      this.logger.warn(`Invalid batch response from handler for queue ${queueName}, failing entire batch`);
+      return allIds;
+    }
+
+    const { batchItemFailures } = response as Partial<SQSBatchResponse>;
+    if (batchItemFailures === undefined || batchItemFailures === null) {
+      return new Set();
+    }
+
+    if (!Array.isArray(batchItemFailures)) {
+      this.logger.warn(`Invalid batchItemFailures from handler for queue ${queueName}, failing entire batch`);
+      return allIds;
     }
+
+    const failedIds = new Set<string>();
+    for (const failure of batchItemFailures) {
+      const itemIdentifier = failure?.itemIdentifier;
+      if (typeof itemIdentifier !== 'string' || !allIds.has(itemIdentifier)) {
+        this.logger.warn(
+          `Invalid itemIdentifier ${JSON.stringify(itemIdentifier)} in batchItemFailures for queue ${queueName}, failing entire batch`
+        );
+        return allIds;
+      }
+      failedIds.add(itemIdentifier);
+    }
+
+    if (failedIds.size > 0) {
+      this.logger.debug(`Handler reported ${failedIds.size} failed item(s) for queue: ${queueName}`);
+    }
+
+    return failedIds;
   }
 
   private async handleMessageFailure(
@@ -175,55 +847,150 @@ export class MessagePoller {
     queueInfo: QueueInfo,
     error?: Error
   ): Promise<void> {
+    // The retry policy or visibility timeout decides when it reappears
+    this.settleMessages([message]);
     const receiveCount = parseInt(message.Attributes?.ApproximateReceiveCount || '1', 10);
-    const maxReceiveCount = queueConfig.dlq?.maxReceiveCount || this.config.maxReceiveCount;
+    const dlqMode = queueConfig.dlq?.mode || this.config.dlqMode;
+    const redrivePolicy = dlqMode === 'native' ? parseRedrivePolicy(queueInfo.attributes?.RedrivePolicy) : undefined;
+    const maxReceiveCount = redrivePolicy?.maxReceiveCount ||
+      queueConfig.dlq?.maxReceiveCount || this.config.maxReceiveCount;
 
     this.logger.warn(
       `Message ${message.MessageId} failed processing (attempt ${receiveCount}/${maxReceiveCount}): ${error?.message || 'Unknown error'}`
     );
 
-    // If max receive count reached and DLQ is enabled, send to DLQ
-    if (receiveCount >= maxReceiveCount && queueConfig.dlq?.enabled) {
+    if (receiveCount >= maxReceiveCount && redrivePolicy) {
+      // SQS moves the message to the DLQ itself on the next receive, so make it visible right away
       try {
-        const dlqName = queueConfig.dlq.queueName || `${queueConfig.queueName}${this.config.deadLetterQueueSuffix}`;
-        const dlqInfo = await this.sqsClient.getQueueInfo(dlqName);
-        
-        if (dlqInfo) {
-          // Send message to DLQ
-          const dlqBody = JSON.stringify({
-            originalMessage: message,
-            failureReason: error?.message || 'Handler execution failed',
-            failureTime: new Date().toISOString(),
-            queueName: queueConfig.queueName,
-            handler: queueConfig.handler,
-          });
-
-          await this.sqsClient.sendMessage(dlqInfo.queueUrl, dlqBody);
-          
-          // Delete original message
-          await this.sqsClient.deleteMessage(queueInfo.queueUrl, message.ReceiptHandle!);
-          
-          this.logger.info(`Moved message ${message.MessageId} to DLQ: ${dlqName}`);
-        }
-      } catch (dlqError: any) {
-        this.logger.error(`Failed to send message to DLQ: ${dlqError.message}`);
+        await this.sqsClient.changeMessageVisibility(queueInfo.queueUrl, message.ReceiptHandle!, 0);
+        this.logger.info(`Message ${message.MessageId} will be moved to ${redrivePolicy.deadLetterTargetArn} by the queue's RedrivePolicy`);
+      } catch (redriveError: any) {
+        this.logger.warn(`Failed to release message ${message.MessageId} for redrive: ${redriveError.message}`);
       }
+      return;
+    }
+
+    // Without a RedrivePolicy the plugin moves the message itself
+    if (receiveCount >= maxReceiveCount && queueConfig.dlq?.enabled) {
+      await this.moveToDeadLetterQueue(message, queueConfig, queueInfo, {
+        reason: error?.message || 'Handler execution failed',
+        queueName: queueConfig.queueName,
+        handler: queueConfig.handler,
+        receiveCount,
+      });
+      return;
+    }
+
+    await this.scheduleRetry(message, queueConfig, queueInfo, receiveCount);
+  }
+
+  /**
+   * Sends a copy of the failed message to the queue's DLQ and deletes the
+   * original. The copy keeps the body and attributes unless the queue opts
+   * into the `envelope` format.
+   */
+  private async moveToDeadLetterQueue(
+    message: Message,
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo,
+    failure: DeadLetterFailure
+  ): Promise<void> {
+    try {
+      const dlqName = queueConfig.dlq?.queueName ||
+        buildDeadLetterQueueName(queueConfig.queueName, this.config.deadLetterQueueSuffix);
+      const dlqInfo = await this.sqsClient.getQueueInfo(dlqName);
+
+      const dlqMessage = (queueConfig.dlq?.mode || this.config.dlqMode) === 'envelope'
+        ? buildDeadLetterEnvelope(message, failure)
+        : buildDeadLetterCopy(message, failure);
+
+      // FIFO DLQs need a group, so keep the original one
+      const sendOptions = isFifoQueueName(dlqName)
+        ? {
+          messageGroupId: message.Attributes?.MessageGroupId || queueConfig.queueName,
+          messageDeduplicationId: message.MessageId,
+        }
+        : undefined;
+
+      await this.sqsClient.sendMessage(dlqInfo.queueUrl, dlqMessage.body, dlqMessage.attributes, sendOptions);
+
+      // Delete original message
+      await this.sqsClient.deleteMessage(queueInfo.queueUrl, message.ReceiptHandle!);
+
+      this.logger.info(`Moved message ${message.MessageId} to DLQ: ${dlqName}`);
+    } catch (dlqError: any) {
+      this.logger.error(`Failed to send message to DLQ: ${dlqError.message}`);
+    }
+  }
+
+  /**
+   * Applies the queue's retry policy by setting the failed message's
+   * visibility timeout, so it reappears after the computed backoff instead
+   * of the full visibility timeout.
+   */
+  private async scheduleRetry(
+    message: Message,
+    queueConfig: QueueConfig,
+    queueInfo: QueueInfo,
+    receiveCount: number
+  ): Promise<void> {
+    if (!queueConfig.retry) {
+      return;
+    }
+
+    const delay = calculateRetryDelay(queueConfig.retry, receiveCount);
+
+    try {
+      await this.sqsClient.changeMessageVisibility(queueInfo.queueUrl, message.ReceiptHandle!, delay);
+      this.logger.debug(`Message ${message.MessageId} will be retried in ${delay}s (${queueConfig.retry.strategy} backoff)`);
+    } catch (retryError: any) {
+      this.logger.warn(`Failed to schedule retry for message ${message.MessageId}: ${retryError.message}`);
     }
   }
 
-  stopPolling(): void {
+  /**
+   * Stops receiving, then waits up to `drainTimeout` ms for in-flight
+   * invocations to finish and settle their messages.
+   */
+  async stopPolling(drainTimeout = this.config.shutdownTimeout): Promise<void> {
     this.logger.info('Stopping all SQS pollers');
 
-    for (const [pollerId, poller] of this.pollers.entries()) {
-      clearInterval(poller);
+    const pollers = Array.from(this.pollers.entries());
+    this.pollers.clear();
+
+    await this.drainPollers(pollers, drainTimeout);
+  }
+
+  private async drainPollers(pollers: [string, QueuePoller][], drainTimeout: number): Promise<void> {
+    for (const [pollerId, poller] of pollers) {
+      poller.abortController.abort();
       const state = this.pollerStates.get(pollerId);
       if (state) {
         state.isPolling = false;
       }
-      this.logger.debug(`Stopped poller: ${pollerId}`);
     }
 
-    this.pollers.clear();
+    let pending = pollers.length;
+    const drained = Promise.all(pollers.map(async ([pollerId, poller]) => {
+      await Promise.all(poller.loops);
+      pending--;
+      this.logger.debug(`Stopped poller: ${pollerId}`);
+    }));
+
+    let deadline: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+      deadline = setTimeout(() => resolve(true), drainTimeout);
+    });
+
+    try {
+      if (await Promise.race([drained.then(() => false), timedOut])) {
+        this.logger.warn(
+          `Gave up waiting for in-flight handlers after ${drainTimeout}ms; ${pending} poller(s) still busy, their messages will be redelivered`
+        );
+      }
+    } finally {
+      clearTimeout(deadline);
+    }
   }
 
   getPollerStates(): Map<string, PollerState> {
@@ -1,6 +1,7 @@
 import { SqsClientWrapper, QueueInfo } from './client';
 import { Logger } from '../utils/logger';
 import { PluginConfig, QueueConfig } from '../config/defaults';
+import { buildDeadLetterQueueName, FIFO_SUFFIX, isFifoQueueName } from '../utils/queue-name';
 
 export interface QueueResource {
   logicalId: string;
@@ -9,11 +10,19 @@ export interface QueueResource {
   dlqName?: string;
 }
 
+export interface ResolvedQueue {
+  queueName: string;
+  dlqName?: string;
+  handlers: string[];
+}
+
 export class QueueManager {
   private sqsClient: SqsClientWrapper;
   private logger: Logger;
   private config: PluginConfig;
   private createdQueues: Map<string, QueueInfo> = new Map();
+  // Queues that did not exist before the plugin created them, for teardown
+  private ownedQueues: Set<string> = new Set();
 
   constructor(sqsClient: SqsClientWrapper, config: PluginConfig, logger: Logger) {
     this.sqsClient = sqsClient;
@@ -61,23 +70,59 @@ export class QueueManager {
     }
   }
 
+  /**
+   * Lists the queues the plugin knows about, from its configuration and from
+   * CloudFormation resources, without creating them.
+   */
+  resolveQueues(resources?: any): ResolvedQueue[] {
+    const queues = new Map<string, ResolvedQueue>();
+
+    for (const queueConfig of this.config.queues) {
+      const queueName = this.sanitizeQueueName(queueConfig.queueName);
+      const existing = queues.get(queueName);
+      queues.set(queueName, {
+        queueName,
+        dlqName: existing?.dlqName ?? this.getDeadLetterQueueName(queueConfig),
+        handlers: [...(existing?.handlers || []), queueConfig.handler],
+      });
+    }
+
+    for (const resource of this.extractSqsResources(resources)) {
+      const existing = queues.get(resource.queueName);
+      queues.set(resource.queueName, {
+        queueName: resource.queueName,
+        dlqName: resource.dlqName ?? existing?.dlqName,
+        handlers: existing?.handlers || [],
+      });
+    }
+
+    return Array.from(queues.values());
+  }
+
+  private getDeadLetterQueueName(queueConfig: QueueConfig): string | undefined {
+    if (!queueConfig.dlq?.enabled) {
+      return undefined;
+    }
+
+    return this.sanitizeQueueName(
+      queueConfig.dlq.queueName || buildDeadLetterQueueName(queueConfig.queueName, this.config.deadLetterQueueSuffix)
+    );
+  }
+
   private async createQueueFromConfig(queueConfig: QueueConfig): Promise<void> {
-    const { queueName: rawQueueName, dlq } = queueConfig;
-    const queueName = this.sanitizeQueueName(rawQueueName);
+    const queueName = this.sanitizeQueueName(queueConfig.queueName);
 
     // Create DLQ first if enabled
     let dlqUrl: string | undefined;
-    if (dlq?.enabled) {
-      const dlqName = this.sanitizeQueueName(dlq.queueName || `${queueName}${this.config.deadLetterQueueSuffix}`);
-      const dlqInfo = await this.sqsClient.createQueue(dlqName);
+    const dlqName = this.getDeadLetterQueueName(queueConfig);
+    if (dlqName) {
+      const dlqInfo = await this.createQueue(dlqName);
       dlqUrl = dlqInfo.queueUrl;
-      this.createdQueues.set(dlqName, dlqInfo);
     }
 
     // Create main queue
     const attributes = this.buildQueueAttributes(queueConfig, dlqUrl);
-    const queueInfo = await this.sqsClient.createQueue(queueName, attributes);
-    this.createdQueues.set(queueName, queueInfo);
+    await this.createQueue(queueName, attributes);
 
     this.logger.info(`Created queue: ${queueName} with handler: ${queueConfig.handler}`);
   }
@@ -88,9 +133,8 @@ export class QueueManager {
     // Create DLQ first if specified
     let dlqUrl: string | undefined;
     if (dlqName) {
-      const dlqInfo = await this.sqsClient.createQueue(dlqName);
+      const dlqInfo = await this.createQueue(dlqName);
       dlqUrl = dlqInfo.queueUrl;
-      this.createdQueues.set(dlqName, dlqInfo);
     }
 
     // Update attributes with DLQ ARN if needed
@@ -103,23 +147,39 @@ export class QueueManager {
     }
 
     // Create main queue
-    const queueInfo = await this.sqsClient.createQueue(queueName, finalAttributes);
-    this.createdQueues.set(queueName, queueInfo);
+    await this.createQueue(queueName, finalAttributes);
 
     this.logger.info(`Created queue from CloudFormation: ${queueName}`);
   }
 
+  private async createQueue(queueName: string, attributes?: Record<string, string>): Promise<QueueInfo> {
+    const existed = await this.sqsClient.queueExists(queueName);
+    const queueInfo = await this.sqsClient.createQueue(queueName, attributes);
+    this.createdQueues.set(queueName, queueInfo);
+    if (!existed) {
+      this.ownedQueues.add(queueName);
+    }
+    return queueInfo;
+  }
+
   private buildQueueAttributes(queueConfig: QueueConfig, dlqUrl?: string): Record<string, string> {
     const attributes: Record<string, string> = {
       VisibilityTimeout: (queueConfig.visibilityTimeout || this.config.visibilityTimeout).toString(),
       ReceiveMessageWaitTimeSeconds: (queueConfig.waitTimeSeconds || this.config.waitTimeSeconds).toString(),
     };
 
-    if (dlqUrl && queueConfig.dlq?.enabled) {
-      const dlqName = this.sanitizeQueueName(queueConfig.dlq.queueName || `${queueConfig.queueName}${this.config.deadLetterQueueSuffix}`);
+    if (isFifoQueueName(queueConfig.queueName)) {
+      attributes.FifoQueue = 'true';
+      if (queueConfig.contentBasedDeduplication !== undefined) {
+        attributes.ContentBasedDeduplication = queueConfig.contentBasedDeduplication.toString();
+      }
+    }
+
+    const dlqName = this.getDeadLetterQueueName(queueConfig);
+    if (dlqUrl && dlqName) {
       attributes.RedrivePolicy = JSON.stringify({
         deadLetterTargetArn: this.buildQueueArn(dlqName),
-        maxReceiveCount: queueConfig.dlq.maxReceiveCount || this.config.maxReceiveCount,
+        maxReceiveCount: queueConfig.dlq?.maxReceiveCount || this.config.maxReceiveCount,
       });
     }
 
@@ -169,6 +229,20 @@ export class QueueManager {
         attributes.DelaySeconds = properties.DelaySeconds.toString();
       }
 
+      // FIFO-specific properties
+      if (properties.FifoQueue !== undefined) {
+        attributes.FifoQueue = properties.FifoQueue.toString();
+      }
+      if (properties.ContentBasedDeduplication !== undefined) {
+        attributes.ContentBasedDeduplication = properties.ContentBasedDeduplication.toString();
+      }
+      if (properties.DeduplicationScope !== undefined) {
+        attributes.DeduplicationScope = properties.DeduplicationScope;
+      }
+      if (properties.FifoThroughputLimit !== undefined) {
+        attributes.FifoThroughputLimit = properties.FifoThroughputLimit;
+      }
+
       // Handle redrive policy
       let dlqName: string | undefined;
       if (properties.RedrivePolicy) {
@@ -199,13 +273,18 @@ export class QueueManager {
   }
 
   private sanitizeQueueName(queueName: string): string {
+    // FIFO queues keep their `.fifo` suffix, which counts towards the length limit
+    const isFifo = isFifoQueueName(queueName);
+    const suffix = isFifo ? FIFO_SUFFIX : '';
+    const baseName = isFifo ? queueName.slice(0, -FIFO_SUFFIX.length) : queueName;
+
     // SQS queue names can only contain alphanumeric characters, hyphens, and underscores
     // Replace dots and other invalid characters with hyphens
-    let sanitized = queueName.replace(/[^a-zA-Z0-9_-]/g, '-');
+    let sanitized = baseName.replace(/[^a-zA-Z0-9_-]/g, '-');
     
     // Ensure length is between 1 and 80 characters
-    if (sanitized.length > 80) {
-      sanitized = sanitized.substring(0, 80);
+    if (sanitized.length > 80 - suffix.length) {
+      sanitized = sanitized.substring(0, 80 - suffix.length);
     }
     
     // Remove trailing hyphens that might have been added
@@ -216,7 +295,59 @@ export class QueueManager {
       sanitized = 'queue';
     }
     
-    return sanitized;
+    return `${sanitized}${suffix}`;
+  }
+
+  /**
+   * Deletes every message in the plugin's queues, or only in their DLQs.
+   * Queues that don't exist are skipped. Returns the purged queue names.
+   */
+  async purgeQueues(resources?: any, dlqOnly = false): Promise<string[]> {
+    const queues = this.resolveQueues(resources);
+    const dlqNames = queues.map(queue => queue.dlqName).filter((name): name is string => Boolean(name));
+    const names = Array.from(new Set(dlqOnly ? dlqNames : [...queues.map(queue => queue.queueName), ...dlqNames]));
+
+    const purged: string[] = [];
+    for (const queueName of names) {
+      const queueInfo = await this.getQueueInfo(queueName);
+      if (!queueInfo) {
+        continue;
+      }
+
+      try {
+        await this.sqsClient.purgeQueue(queueInfo.queueUrl);
+        purged.push(queueName);
+      } catch (error: any) {
+        this.logger.warn(error.message);
+      }
+    }
+
+    this.logger.info(`Purged ${purged.length} queue(s)`);
+    return purged;
+  }
+
+  /**
+   * Deletes the queues `createQueuesFromConfig` and
+   * `createQueuesFromCloudFormation` created. Queues that already existed
+   * are left alone.
+   */
+  async deleteCreatedQueues(): Promise<void> {
+    for (const queueName of this.ownedQueues) {
+      const queueInfo = this.createdQueues.get(queueName);
+      if (!queueInfo) {
+        continue;
+      }
+
+      try {
+        await this.sqsClient.deleteQueue(queueInfo.queueUrl);
+        this.logger.info(`Deleted queue: ${queueName}`);
+      } catch (error: any) {
+        this.logger.warn(error.message);
+      }
+    }
+
+    this.ownedQueues.clear();
+    this.createdQueues.clear();
   }
 
   getCreatedQueues(): Map<string, QueueInfo> {
@@ -0,0 +1,79 @@
+import { SqsClientWrapper } from './client';
+import { Logger } from '../utils/logger';
+import { PluginConfig } from '../config/defaults';
+import { getSqsServiceStatus, isSqsServiceReady, LOCALSTACK_HEALTH_PATH } from '../utils/localstack-health';
+
+/**
+ * Waits until an SQS endpoint accepts requests, so queue creation doesn't
+ * race a LocalStack that is still starting. Each attempt asks LocalStack's
+ * health endpoint for the SQS status and falls back to `ListQueues` for
+ * endpoints that don't have one.
+ */
+export class ReadinessProbe {
+  private sqsClient: SqsClientWrapper;
+  private config: PluginConfig;
+  private logger: Logger;
+
+  constructor(sqsClient: SqsClientWrapper, config: PluginConfig, logger: Logger) {
+    this.sqsClient = sqsClient;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async waitUntilReady(endpoint: string): Promise<void> {
+    const startedAt = Date.now();
+    let attempts = 0;
+    let lastFailure = '';
+
+    this.logger.info(`Waiting for SQS at ${endpoint} to become ready...`);
+
+    for (;;) {
+      attempts++;
+      const failure = await this.probe(endpoint);
+      if (!failure) {
+        this.logger.info(`SQS at ${endpoint} is ready`);
+        return;
+      }
+
+      lastFailure = failure;
+      this.logger.debug(`SQS at ${endpoint} is not ready (attempt ${attempts}): ${failure}`);
+
+      if (Date.now() - startedAt + this.config.readinessInterval > this.config.readinessTimeout) {
+        break;
+      }
+      await new Promise(resolve => setTimeout(resolve, this.config.readinessInterval));
+    }
+
+    throw new Error(
+      `SQS at ${endpoint} was not ready after ${attempts} attempt(s) over ${Date.now() - startedAt}ms. ` +
+      `Last result: ${lastFailure}. Check that LocalStack is running with SQS enabled, ` +
+      'or raise readinessTimeout if it needs longer to start'
+    );
+  }
+
+  // Returns why the endpoint is not ready, or undefined when it is
+  private async probe(endpoint: string): Promise<string | undefined> {
+    let health: string;
+    try {
+      const status = await getSqsServiceStatus(endpoint);
+      if (isSqsServiceReady(status)) {
+        return undefined;
+      }
+      health = status ? `sqs is "${status}"` : 'sqs is not listed';
+    } catch (error: any) {
+      health = describeError(error);
+    }
+
+    try {
+      await this.sqsClient.getBackend().listQueues({ MaxResults: 1 });
+      return undefined;
+    } catch (error: any) {
+      return `${LOCALSTACK_HEALTH_PATH}: ${health}; ListQueues: ${describeError(error)}`;
+    }
+  }
+}
+
+// Connection errors for hosts with several addresses can have an empty message
+const describeError = (error: any): string => {
+  return error.message || error.code || error.name || String(error);
+};
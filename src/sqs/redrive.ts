@@ -0,0 +1,112 @@
+import { SqsClientWrapper, QueueInfo } from './client';
+import { Logger } from '../utils/logger';
+import { PluginConfig, QueueConfig } from '../config/defaults';
+import { buildDeadLetterQueueName, isFifoQueueName } from '../utils/queue-name';
+import { parseRedrivePolicy, restoreDeadLetterMessage } from './dead-letter';
+import { MAX_RECEIVE_MESSAGES } from './limits';
+
+// Long enough to send and delete a received batch before it reappears
+const REDRIVE_VISIBILITY_TIMEOUT = 30;
+
+export interface RedriveOptions {
+  // Number of messages to move; all when omitted
+  count?: number;
+  // Messages moved per second; unlimited when omitted
+  rate?: number;
+}
+
+export interface RedriveResult {
+  sourceQueue: string;
+  deadLetterQueue: string;
+  moved: number;
+}
+
+/**
+ * Moves messages from a dead-letter queue back to its source queue, restoring
+ * the original body and attributes of messages the plugin moved itself.
+ */
+export class DeadLetterRedriver {
+  private sqsClient: SqsClientWrapper;
+  private logger: Logger;
+  private config: PluginConfig;
+
+  constructor(sqsClient: SqsClientWrapper, config: PluginConfig, logger: Logger) {
+    this.sqsClient = sqsClient;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  async redrive(queueName: string, options: RedriveOptions = {}, queueConfig?: QueueConfig): Promise<RedriveResult> {
+    const sourceInfo = await this.sqsClient.getQueueInfo(queueName);
+    const deadLetterQueue = this.resolveDeadLetterQueue(sourceInfo, queueConfig);
+    const dlqInfo = await this.sqsClient.getQueueInfo(deadLetterQueue);
+
+    // "All" means the messages in the DLQ now, so messages that keep failing
+    // back into it while the session runs can't keep the redrive going
+    const limit = options.count ?? Number(dlqInfo.attributes?.ApproximateNumberOfMessages || 0);
+    const interval = options.rate ? 1000 / options.rate : 0;
+    let moved = 0;
+
+    this.logger.info(`Redriving ${limit} message(s) from ${deadLetterQueue} to ${queueName}`);
+
+    try {
+      while (moved < limit) {
+        const messages = await this.sqsClient.receiveMessages(
+          dlqInfo.queueUrl,
+          Math.min(limit - moved, MAX_RECEIVE_MESSAGES),
+          REDRIVE_VISIBILITY_TIMEOUT,
+          1
+        );
+
+        if (messages.length === 0) {
+          break;
+        }
+
+        for (const message of messages) {
+          const restored = restoreDeadLetterMessage(message);
+
+          // FIFO queues need a group; the DLQ message ID keeps the dedup ID unique per move
+          const sendOptions = isFifoQueueName(queueName)
+            ? {
+              messageGroupId: restored.messageGroupId || queueName,
+              messageDeduplicationId: message.MessageId,
+            }
+            : undefined;
+
+          await this.sqsClient.sendMessage(sourceInfo.queueUrl, restored.body, restored.attributes, sendOptions);
+          await this.sqsClient.deleteMessage(dlqInfo.queueUrl, message.ReceiptHandle!);
+          moved++;
+
+          if (interval > 0) {
+            await new Promise(resolve => setTimeout(resolve, interval));
+          }
+        }
+      }
+    } catch (error: any) {
+      throw new Error(`Redrive from ${deadLetterQueue} stopped after ${moved} message(s): ${error.message}`);
+    }
+
+    this.logger.info(`Moved ${moved} message(s) from ${deadLetterQueue} to ${queueName}`);
+
+    return { sourceQueue: queueName, deadLetterQueue, moved };
+  }
+
+  /**
+   * The queue's RedrivePolicy names its DLQ; queues without one fall back to
+   * the plugin's `dlq` configuration.
+   */
+  private resolveDeadLetterQueue(sourceInfo: QueueInfo, queueConfig?: QueueConfig): string {
+    const redrivePolicy = parseRedrivePolicy(sourceInfo.attributes?.RedrivePolicy);
+    if (redrivePolicy) {
+      const arnParts = redrivePolicy.deadLetterTargetArn.split(':');
+      return arnParts[arnParts.length - 1];
+    }
+
+    if (queueConfig?.dlq?.enabled) {
+      return queueConfig.dlq.queueName ||
+        buildDeadLetterQueueName(sourceInfo.queueName, this.config.deadLetterQueueSuffix);
+    }
+
+    throw new Error(`No dead-letter queue found for ${sourceInfo.queueName}`);
+  }
+}
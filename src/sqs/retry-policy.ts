@@ -0,0 +1,36 @@
+import { RetryPolicy } from '../config/defaults';
+
+// ChangeMessageVisibility accepts at most 12 hours
+const MAX_VISIBILITY_TIMEOUT = 43200;
+
+/**
+ * Returns the number of seconds to wait before the given attempt is retried.
+ * `attempt` is the message's receive count, starting at 1.
+ */
+export const calculateRetryDelay = (policy: RetryPolicy, attempt: number): number => {
+  const { strategy, baseDelay } = policy;
+  const retryNumber = Math.max(1, attempt);
+
+  let delay: number;
+  switch (strategy) {
+    case 'fixed':
+      delay = baseDelay;
+      break;
+    case 'linear':
+      delay = baseDelay * retryNumber;
+      break;
+    case 'exponential':
+    default:
+      delay = baseDelay * Math.pow(2, retryNumber - 1);
+      break;
+  }
+
+  delay = Math.min(delay, policy.maxDelay ?? MAX_VISIBILITY_TIMEOUT, MAX_VISIBILITY_TIMEOUT);
+
+  // Full jitter spreads retries of simultaneous failures across [0, delay]
+  if (policy.jitter) {
+    delay = Math.random() * delay;
+  }
+
+  return Math.round(delay);
+};
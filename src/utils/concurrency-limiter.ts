@@ -0,0 +1,33 @@
+/**
+ * Runs at most `limit` tasks at a time; further tasks wait for a free slot
+ * in the order they arrived.
+ */
+export class ConcurrencyLimiter {
+  private limit: number;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running >= this.limit) {
+      // The finishing task hands its slot over, so `running` stays counted
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+    } else {
+      this.running++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.running--;
+      }
+    }
+  }
+}
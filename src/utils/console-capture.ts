@@ -0,0 +1,53 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { format } from 'util';
+
+const CAPTURED_CONSOLE_METHODS = ['log', 'info', 'warn', 'error', 'debug'] as const;
+
+const captured = new AsyncLocalStorage<string[]>();
+let activeCaptures = 0;
+let originals: Array<readonly [typeof CAPTURED_CONSOLE_METHODS[number], (...args: any[]) => void]> = [];
+
+/**
+ * Runs `fn` and records what it, and the async work it starts, writes to the
+ * console into `logs`. Output still reaches the terminal, and console calls
+ * from other code running meanwhile are not recorded.
+ */
+export const captureConsole = async <T>(logs: string[], fn: () => Promise<T>): Promise<T> => {
+  if (activeCaptures++ === 0) {
+    patchConsole();
+  }
+
+  try {
+    return await captured.run(logs, fn);
+  } finally {
+    if (--activeCaptures === 0) {
+      restoreConsole();
+    }
+  }
+};
+
+/**
+ * Runs `fn` outside any capture, for output that belongs to the plugin
+ * rather than the handler.
+ */
+export const withoutConsoleCapture = <T>(fn: () => T): T => {
+  return captured.exit(fn);
+};
+
+const patchConsole = (): void => {
+  originals = CAPTURED_CONSOLE_METHODS.map(method => [method, console[method]] as const);
+
+  for (const [method, original] of originals) {
+    console[method] = (...args: any[]) => {
+      captured.getStore()?.push(format(...args));
+      original.apply(console, args);
+    };
+  }
+};
+
+const restoreConsole = (): void => {
+  for (const [method, original] of originals) {
+    console[method] = original;
+  }
+  originals = [];
+};
@@ -1,19 +1,45 @@
 import { exec } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { homedir, hostname } from 'os';
+import { join } from 'path';
 import { promisify } from 'util';
 import Docker from 'dockerode';
 import { Logger } from './logger';
 
 const execAsync = promisify(exec);
 
+const LOCALSTACK_PORT = 4566;
+const DEFAULT_DOCKER_SOCKET = '/var/run/docker.sock';
+// Docker's convention for daemons that only accept TLS
+const DOCKER_TLS_PORT = 2376;
+const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+
 export interface DockerInfo {
   isRunning: boolean;
   isDockerDesktop: boolean;
   host: string;
   port: number;
+  // How the endpoint was chosen, for the log
+  strategy: string;
+}
+
+interface DockerConnection {
+  options?: Docker.DockerOptions;
+  // Where the connection settings came from, for the log
+  source: string;
+  // The daemon's hostname when it runs on another machine, e.g. Docker-in-Docker
+  remoteHost?: string;
+}
+
+interface LocalStackContainerInfo {
+  host: string;
+  port: number;
+  strategy: string;
 }
 
 export class DockerDetector {
   private logger: Logger;
+  private connection?: DockerConnection;
 
   constructor(logger: Logger) {
     this.logger = logger;
@@ -24,7 +50,8 @@ export class DockerDetector {
       isRunning: false,
       isDockerDesktop: false,
       host: 'localhost',
-      port: 4566,
+      port: LOCALSTACK_PORT,
+      strategy: 'default endpoint',
     };
 
     try {
@@ -35,6 +62,19 @@ export class DockerDetector {
         return defaultInfo;
       }
 
+      // Look for a LocalStack container by image, compose service or name
+      const localstackInfo = await this.getLocalStackContainerInfo();
+      if (localstackInfo) {
+        this.logger.debug('LocalStack container detected', localstackInfo);
+        return {
+          ...defaultInfo,
+          isRunning: true,
+          host: localstackInfo.host,
+          port: localstackInfo.port,
+          strategy: localstackInfo.strategy,
+        };
+      }
+
       // Check if running in a Docker container
       const isInContainer = await this.isRunningInDocker();
       if (isInContainer) {
@@ -43,6 +83,7 @@ export class DockerDetector {
           ...defaultInfo,
           isRunning: true,
           host: this.getDockerInternalHost(),
+          strategy: process.env.LOCALSTACK_HOST ? 'LOCALSTACK_HOST' : 'default container hostname',
         };
       }
 
@@ -55,18 +96,7 @@ export class DockerDetector {
           isRunning: true,
           isDockerDesktop: true,
           host: 'localhost',
-        };
-      }
-
-      // Check for LocalStack container specifically
-      const localstackInfo = await this.getLocalStackContainerInfo();
-      if (localstackInfo) {
-        this.logger.debug('LocalStack container detected', localstackInfo);
-        return {
-          ...defaultInfo,
-          isRunning: true,
-          host: localstackInfo.host,
-          port: localstackInfo.port,
+          strategy: 'Docker daemon on localhost',
         };
       }
 
@@ -78,7 +108,31 @@ export class DockerDetector {
     }
   }
 
+  /**
+   * A client for the Docker (or Podman) daemon, connected the way the
+   * `docker` CLI would connect.
+   */
+  async getDockerClient(): Promise<Docker> {
+    const connection = await this.getDockerConnection();
+    return new Docker(connection.options);
+  }
+
+  async getEndpointUrl(customEndpoint?: string): Promise<string> {
+    if (customEndpoint) {
+      this.logger.info('LocalStack endpoint chosen by: configured endpoint');
+      return customEndpoint;
+    }
+
+    const dockerInfo = await this.detectDocker();
+    this.logger.info(`LocalStack endpoint chosen by: ${dockerInfo.strategy}`);
+    return `http://${dockerInfo.host}:${dockerInfo.port}`;
+  }
+
   private async isDockerAvailable(): Promise<boolean> {
+    if (process.env.DOCKER_HOST || process.env.CONTAINER_HOST || findSocket()) {
+      return true;
+    }
+
     try {
       await execAsync('docker --version');
       return true;
@@ -91,7 +145,11 @@ export class DockerDetector {
     try {
       // Check if we're running inside a container
       const { stdout } = await execAsync('cat /proc/1/cgroup 2>/dev/null || echo ""');
-      return stdout.includes('docker') || stdout.includes('containerd');
+      if (stdout.includes('docker') || stdout.includes('containerd')) {
+        return true;
+      }
+      // cgroup v2 hides the runtime, but Docker and Podman leave these files
+      return existsSync('/.dockerenv') || existsSync('/run/.containerenv');
     } catch {
       return false;
     }
@@ -99,7 +157,7 @@ export class DockerDetector {
 
   private async isDockerDesktopRunning(): Promise<boolean> {
     try {
-      const docker = new Docker();
+      const docker = await this.getDockerClient();
       await docker.ping();
       return true;
     } catch {
@@ -107,36 +165,51 @@ export class DockerDetector {
     }
   }
 
-  private async getLocalStackContainerInfo(): Promise<{ host: string; port: number } | null> {
+  private async getLocalStackContainerInfo(): Promise<LocalStackContainerInfo | null> {
     try {
-      const docker = new Docker();
+      const docker = await this.getDockerClient();
       const containers = await docker.listContainers({
         filters: {
-          name: ['localstack'],
           status: ['running'],
         },
       });
 
-      if (containers.length === 0) {
+      const found = findLocalStackContainer(containers);
+      if (!found) {
         return null;
       }
 
-      const container = containers[0];
-      const ports = container.Ports;
-      
+      const { container, match } = found;
+      const strategy = `LocalStack container found by ${match}`;
+
+      // Containers reach each other directly when they share a network
+      if (await this.isRunningInDocker()) {
+        const network = await this.findSharedNetwork(docker, container);
+        if (network) {
+          return {
+            host: network.host,
+            port: LOCALSTACK_PORT,
+            strategy: `${strategy}, reached over shared network ${network.name}`,
+          };
+        }
+      }
+
       // Look for SQS port (4566)
-      const sqsPort = ports.find(p => p.PrivatePort === 4566);
+      const ports = container.Ports || [];
+      const sqsPort = ports.find(p => p.PrivatePort === LOCALSTACK_PORT);
       if (sqsPort && sqsPort.PublicPort) {
         return {
-          host: sqsPort.IP || 'localhost',
+          host: await this.getPublishedPortHost(sqsPort.IP),
           port: sqsPort.PublicPort,
+          strategy: `${strategy}, reached on its published port`,
         };
       }
 
       // Default LocalStack port
       return {
         host: 'localhost',
-        port: 4566,
+        port: LOCALSTACK_PORT,
+        strategy: `${strategy}, no published port`,
       };
     } catch (error) {
       this.logger.debug('Error getting LocalStack container info:', error);
@@ -144,23 +217,187 @@ export class DockerDetector {
     }
   }
 
+  // Published ports live on the daemon's host, which is not ours with
+  // Docker-in-Docker or when this process runs in a container
+  private async getPublishedPortHost(ip?: string): Promise<string> {
+    const { remoteHost } = await this.getDockerConnection();
+    if (remoteHost) {
+      return remoteHost;
+    }
+    if (await this.isRunningInDocker()) {
+      return 'host.docker.internal';
+    }
+    return ip && ip !== '0.0.0.0' && ip !== '::' ? ip : 'localhost';
+  }
+
+  private async findSharedNetwork(
+    docker: Docker,
+    container: Docker.ContainerInfo
+  ): Promise<{ name: string; host: string } | null> {
+    let ownNetworks: string[];
+    try {
+      // A container's hostname defaults to its ID
+      const self = await docker.getContainer(hostname()).inspect();
+      ownNetworks = Object.keys(self.NetworkSettings.Networks || {});
+    } catch {
+      this.logger.debug('Could not inspect the container this process runs in');
+      return null;
+    }
+
+    const networks = container.NetworkSettings?.Networks || {};
+    const name = Object.keys(networks).find(network => ownNetworks.includes(network));
+    if (!name) {
+      return null;
+    }
+
+    // The default bridge network has no DNS, so use the address there
+    if (name === 'bridge') {
+      return { name, host: networks[name].IPAddress };
+    }
+    return { name, host: container.Labels?.[COMPOSE_SERVICE_LABEL] || getContainerName(container) };
+  }
+
+  private async getDockerConnection(): Promise<DockerConnection> {
+    if (!this.connection) {
+      this.connection = await this.resolveDockerConnection();
+      this.logger.debug(`Connecting to Docker using ${this.connection.source}`);
+    }
+    return this.connection;
+  }
+
+  private async resolveDockerConnection(): Promise<DockerConnection> {
+    // dockerode reads DOCKER_HOST (and the TLS variables) itself
+    if (process.env.DOCKER_HOST) {
+      return { source: 'DOCKER_HOST', remoteHost: getRemoteHost(process.env.DOCKER_HOST) };
+    }
+
+    // Podman's equivalent of DOCKER_HOST
+    if (process.env.CONTAINER_HOST) {
+      return {
+        options: parseDockerHost(process.env.CONTAINER_HOST),
+        source: 'CONTAINER_HOST',
+        remoteHost: getRemoteHost(process.env.CONTAINER_HOST),
+      };
+    }
+
+    const contextHost = await this.getDockerContextHost();
+    const contextOptions = contextHost ? parseDockerHost(contextHost) : undefined;
+    if (contextHost && contextOptions) {
+      return { options: contextOptions, source: `Docker context (${contextHost})`, remoteHost: getRemoteHost(contextHost) };
+    }
+
+    const socketPath = findSocket();
+    if (socketPath) {
+      return {
+        options: { socketPath },
+        source: socketPath === DEFAULT_DOCKER_SOCKET ? 'the default Docker socket' : `the Podman socket ${socketPath}`,
+      };
+    }
+
+    return { source: 'dockerode defaults' };
+  }
+
+  // The current context honors DOCKER_CONTEXT and `docker context use`
+  private async getDockerContextHost(): Promise<string | undefined> {
+    try {
+      const { stdout } = await execAsync('docker context inspect --format "{{.Endpoints.docker.Host}}"');
+      return stdout.trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private getDockerInternalHost(): string {
     // When running inside Docker, LocalStack is typically accessible via container name or host.docker.internal
     if (process.env.LOCALSTACK_HOST) {
       return process.env.LOCALSTACK_HOST;
     }
-    
+
     // Try common Docker networking patterns
     const commonHosts = ['localstack', 'host.docker.internal', 'localhost'];
     return commonHosts[0]; // Default to 'localstack' container name
   }
+}
 
-  async getEndpointUrl(customEndpoint?: string): Promise<string> {
-    if (customEndpoint) {
-      return customEndpoint;
-    }
+// Prefers the most specific match: the image, then the compose service, then the name
+const findLocalStackContainer = (
+  containers: Docker.ContainerInfo[]
+): { container: Docker.ContainerInfo; match: string } | undefined => {
+  const byImage = containers.find(container => /(^|\/)localstack\/localstack(-pro)?(:|@|$)/.test(container.Image || ''));
+  if (byImage) {
+    return { container: byImage, match: `image ${byImage.Image}` };
+  }
 
-    const dockerInfo = await this.detectDocker();
-    return `http://${dockerInfo.host}:${dockerInfo.port}`;
+  const byService = containers.find(container => /localstack/i.test(container.Labels?.[COMPOSE_SERVICE_LABEL] || ''));
+  if (byService) {
+    return { container: byService, match: `compose service ${byService.Labels[COMPOSE_SERVICE_LABEL]}` };
+  }
+
+  const byName = containers.find(container => /localstack/i.test(getContainerName(container)));
+  if (byName) {
+    return { container: byName, match: `container name ${getContainerName(byName)}` };
+  }
+
+  return undefined;
+};
+
+const getContainerName = (container: Docker.ContainerInfo): string => {
+  return (container.Names?.[0] || '').replace(/^\//, '');
+};
+
+const findSocket = (): string | undefined => {
+  const candidates = [DEFAULT_DOCKER_SOCKET, '/run/podman/podman.sock'];
+  if (process.env.XDG_RUNTIME_DIR) {
+    candidates.push(`${process.env.XDG_RUNTIME_DIR}/podman/podman.sock`);
+  }
+  return candidates.find(socketPath => existsSync(socketPath));
+};
+
+// Turns `unix:///path` or `tcp://host:port` into dockerode options, using TLS
+// like the `docker` CLI does
+const parseDockerHost = (dockerHost: string): Docker.DockerOptions | undefined => {
+  if (dockerHost.startsWith('unix://')) {
+    return { socketPath: dockerHost.slice('unix://'.length) };
+  }
+  if (dockerHost.startsWith('npipe://')) {
+    return { socketPath: dockerHost.slice('npipe://'.length) };
+  }
+
+  const match = /^tcp:\/\/([^:/]+)(?::(\d+))?/.exec(dockerHost);
+  if (!match) {
+    return undefined;
+  }
+
+  const port = match[2] ? Number(match[2]) : 2375;
+  const tlsVerify = process.env.DOCKER_TLS_VERIFY;
+  if ((tlsVerify && tlsVerify !== '0') || port === DOCKER_TLS_PORT) {
+    return { host: match[1], port, protocol: 'https', ...readTlsCertificates(dockerHost) };
+  }
+  return { host: match[1], port, protocol: 'http' };
+};
+
+// The client certificates live in DOCKER_CERT_PATH, or ~/.docker by default
+const readTlsCertificates = (dockerHost: string): Pick<Docker.DockerOptions, 'ca' | 'cert' | 'key'> => {
+  const certPath = process.env.DOCKER_CERT_PATH || join(homedir(), '.docker');
+
+  try {
+    return {
+      ca: readFileSync(join(certPath, 'ca.pem')),
+      cert: readFileSync(join(certPath, 'cert.pem')),
+      key: readFileSync(join(certPath, 'key.pem')),
+    };
+  } catch (error: any) {
+    throw new Error(
+      `Docker host ${dockerHost} uses TLS, but its client certificates could not be read from ${certPath}: ` +
+      `${error.message}. Set DOCKER_CERT_PATH to the directory with ca.pem, cert.pem and key.pem`
+    );
+  }
+};
+
+const getRemoteHost = (dockerHost: string): string | undefined => {
+  const match = /^(?:tcp|ssh):\/\/(?:[^@/]+@)?([^:/]+)/.exec(dockerHost);
+  if (!match || ['localhost', '127.0.0.1', '::1'].includes(match[1])) {
+    return undefined;
   }
-}
\ No newline at end of file
+  return match[1];
+};
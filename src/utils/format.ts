@@ -0,0 +1,52 @@
+import { Message } from '@aws-sdk/client-sqs';
+
+/**
+ * Lays out rows as left-aligned columns; the first row is the header.
+ */
+export const formatTable = (rows: string[][]): string[] => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => (row[column] || '').length)));
+
+  return rows.map(row => row
+    .map((cell, column) => (cell || '').padEnd(widths[column]))
+    .join('  ')
+    .trimEnd());
+};
+
+/**
+ * Renders a received message for the terminal, pretty-printing JSON bodies.
+ */
+export const formatMessage = (message: Message): string[] => {
+  const lines = [`Message ${message.MessageId}`];
+  const { SentTimestamp, ApproximateReceiveCount, MessageGroupId } = message.Attributes || {};
+
+  if (SentTimestamp) {
+    lines.push(`  Sent: ${new Date(Number(SentTimestamp)).toISOString()}`);
+  }
+  if (ApproximateReceiveCount) {
+    lines.push(`  Receive count: ${ApproximateReceiveCount}`);
+  }
+  if (MessageGroupId) {
+    lines.push(`  Message group: ${MessageGroupId}`);
+  }
+
+  const attributes = Object.entries(message.MessageAttributes || {});
+  if (attributes.length > 0) {
+    lines.push('  Attributes:');
+    for (const [name, value] of attributes) {
+      lines.push(`    ${name} (${value.DataType}): ${value.StringValue ?? '<binary>'}`);
+    }
+  }
+
+  lines.push('  Body:');
+  lines.push(...formatBody(message.Body || '').split('\n').map(line => `    ${line}`));
+
+  return lines;
+};
+
+const formatBody = (body: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    return body;
+  }
+};
@@ -0,0 +1,172 @@
+import Docker from 'dockerode';
+import { Logger } from './logger';
+import { LocalStackConfig } from '../config/defaults';
+import { getSqsServiceStatus, isSqsServiceReady } from './localstack-health';
+
+// Port LocalStack serves every service on inside the container
+const EDGE_PORT = '4566/tcp';
+
+// Marks containers started by the plugin
+const CONTAINER_LABEL = 'serverless-offline-localstack-sqs';
+
+const READY_CHECK_INTERVAL = 1000;
+
+/**
+ * Starts a LocalStack container for the offline session when none is running,
+ * and removes it again on shutdown if the plugin started it.
+ */
+export class LocalStackContainer {
+  private config: LocalStackConfig;
+  private logger: Logger;
+  private docker: Docker;
+  private container?: Docker.Container;
+
+  constructor(config: LocalStackConfig, logger: Logger, docker = new Docker()) {
+    this.config = config;
+    this.logger = logger;
+    this.docker = docker;
+  }
+
+  /**
+   * Returns the endpoint of a running LocalStack container, starting one
+   * first if there is none.
+   */
+  async start(): Promise<string> {
+    const running = await this.findRunningContainer();
+    if (running) {
+      const endpoint = getEndpoint(running);
+      this.logger.info(`LocalStack is already running in container ${getName(running)} at ${endpoint}`);
+      return endpoint;
+    }
+
+    const image = `${this.config.image}:${this.config.tag}`;
+    await this.pullImage(image);
+
+    this.logger.info(`Starting LocalStack container ${this.config.containerName} from ${image}`);
+    await this.removeStoppedContainer();
+
+    const container = await this.docker.createContainer({
+      name: this.config.containerName,
+      Image: image,
+      Env: [
+        `SERVICES=${this.config.services}`,
+        ...(this.config.volume ? ['PERSISTENCE=1'] : []),
+      ],
+      ExposedPorts: { [EDGE_PORT]: {} },
+      Labels: { [CONTAINER_LABEL]: 'true' },
+      HostConfig: {
+        PortBindings: { [EDGE_PORT]: [{ HostPort: this.config.port.toString() }] },
+        Binds: this.config.volume ? [`${this.config.volume}:/var/lib/localstack`] : undefined,
+      },
+    });
+
+    this.container = container;
+    await container.start();
+
+    const endpoint = `http://localhost:${this.config.port}`;
+    await this.waitUntilReady(endpoint);
+    this.logger.info(`LocalStack container ${this.config.containerName} is ready at ${endpoint}`);
+
+    return endpoint;
+  }
+
+  /**
+   * Stops and removes the container if this instance started it.
+   */
+  async stop(): Promise<void> {
+    const container = this.container;
+    if (!container) {
+      return;
+    }
+    this.container = undefined;
+
+    this.logger.info(`Stopping LocalStack container ${this.config.containerName}...`);
+    try {
+      await container.stop();
+    } catch (error: any) {
+      // 304: already stopped
+      if (error.statusCode !== 304) {
+        this.logger.warn(`Failed to stop LocalStack container: ${error.message}`);
+      }
+    }
+
+    try {
+      await container.remove({ v: false });
+    } catch (error: any) {
+      this.logger.warn(`Failed to remove LocalStack container: ${error.message}`);
+    }
+  }
+
+  private async findRunningContainer(): Promise<Docker.ContainerInfo | undefined> {
+    const containers = await this.docker.listContainers({ filters: { status: ['running'] } });
+
+    return containers.find(container =>
+      getName(container) === this.config.containerName ||
+      getRepository(container.Image) === this.config.image
+    );
+  }
+
+  private async pullImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+      return;
+    } catch {
+      // Not available locally
+    }
+
+    this.logger.info(`Pulling ${image}, this can take a while...`);
+    const stream = await this.docker.pull(image);
+    await new Promise<void>((resolve, reject) => {
+      this.docker.modem.followProgress(stream, (error: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  // A stopped container left behind would block the name
+  private async removeStoppedContainer(): Promise<void> {
+    const containers = await this.docker.listContainers({
+      all: true,
+      filters: { name: [this.config.containerName] },
+    });
+    const stale = containers.find(container => getName(container) === this.config.containerName);
+    if (stale) {
+      this.logger.debug(`Removing stopped container ${this.config.containerName}`);
+      await this.docker.getContainer(stale.Id).remove({ force: true });
+    }
+  }
+
+  private async waitUntilReady(endpoint: string): Promise<void> {
+    const deadline = Date.now() + this.config.startTimeout;
+
+    while (Date.now() < deadline) {
+      try {
+        if (isSqsServiceReady(await getSqsServiceStatus(endpoint))) {
+          return;
+        }
+      } catch {
+        // Not accepting connections yet
+      }
+
+      await new Promise(resolve => setTimeout(resolve, READY_CHECK_INTERVAL));
+    }
+
+    throw new Error(
+      `LocalStack container ${this.config.containerName} did not become ready within ${this.config.startTimeout}ms`
+    );
+  }
+}
+
+const getName = (container: Docker.ContainerInfo): string => {
+  return (container.Names[0] || '').replace(/^\//, '');
+};
+
+// Drops the tag or digest, keeping a registry port such as `registry:5000/...`
+const getRepository = (image: string): string => {
+  const name = image.split('@')[0];
+  const tagSeparator = name.lastIndexOf(':');
+  return tagSeparator > name.lastIndexOf('/') ? name.slice(0, tagSeparator) : name;
+};
+
+const getEndpoint = (container: Docker.ContainerInfo): string => {
+  const port = container.Ports.find(mapping => mapping.PrivatePort === 4566 && mapping.PublicPort);
+  return `http://localhost:${port?.PublicPort ?? 4566}`;
+};
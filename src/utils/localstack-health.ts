@@ -0,0 +1,43 @@
+import { get } from 'http';
+
+export const LOCALSTACK_HEALTH_PATH = '/_localstack/health';
+
+/**
+ * Returns the status LocalStack's health endpoint reports for SQS, e.g.
+ * `running` or `available`, or undefined when SQS is not listed. Throws when
+ * the endpoint doesn't answer like LocalStack.
+ */
+export const getSqsServiceStatus = async (endpoint: string, timeout = 2000): Promise<string | undefined> => {
+  const { services } = await getJson(`${endpoint.replace(/\/$/, '')}${LOCALSTACK_HEALTH_PATH}`, timeout);
+  return services?.sqs;
+};
+
+// `available` services start on their first request
+export const isSqsServiceReady = (status?: string): boolean => {
+  return status === 'running' || status === 'available';
+};
+
+const getJson = (url: string, timeout: number): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    const request = get(url, { timeout }, response => {
+      let body = '';
+      response.setEncoding('utf8');
+      response.on('data', chunk => {
+        body += chunk;
+      });
+      response.on('end', () => {
+        if (response.statusCode !== 200) {
+          reject(new Error(`HTTP ${response.statusCode}`));
+          return;
+        }
+        try {
+          resolve(JSON.parse(body));
+        } catch {
+          reject(new Error('response is not JSON'));
+        }
+      });
+    });
+    request.on('timeout', () => request.destroy(new Error(`no response within ${timeout}ms`)));
+    request.on('error', reject);
+  });
+};
@@ -0,0 +1,80 @@
+import { MessageAttributeValue } from '@aws-sdk/client-sqs';
+import { OutgoingMessage } from '../sqs/client';
+
+/**
+ * Converts `{ name: value }` pairs into SQS message attributes. Strings and
+ * booleans become `String`, numbers `Number`; `{ DataType, StringValue }`
+ * objects are passed through.
+ */
+export const parseMessageAttributes = (input: Record<string, any>): Record<string, MessageAttributeValue> => {
+  const attributes: Record<string, MessageAttributeValue> = {};
+
+  for (const [name, value] of Object.entries(input)) {
+    if (typeof value === 'string' || typeof value === 'boolean') {
+      attributes[name] = { DataType: 'String', StringValue: value.toString() };
+    } else if (typeof value === 'number') {
+      attributes[name] = { DataType: 'Number', StringValue: value.toString() };
+    } else if (value && typeof value.DataType === 'string') {
+      attributes[name] = { DataType: value.DataType, StringValue: value.StringValue, BinaryValue: value.BinaryValue };
+    } else {
+      throw new Error(`Invalid value for message attribute ${name}: ${JSON.stringify(value)}`);
+    }
+  }
+
+  return attributes;
+};
+
+/**
+ * Reads the messages of a JSON array or NDJSON file. Entries with a `body`
+ * key may set `attributes`, `delaySeconds`, `messageGroupId` and
+ * `messageDeduplicationId`; any other entry is the message body itself.
+ */
+export const parseMessageFile = (content: string): OutgoingMessage[] => {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('[')) {
+    const entries = JSON.parse(trimmed);
+    return entries.map(parseOutgoingMessage);
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, lineNumber }) => {
+      try {
+        return parseOutgoingMessage(JSON.parse(line));
+      } catch (error: any) {
+        throw new Error(`Invalid message on line ${lineNumber}: ${error.message}`);
+      }
+    });
+};
+
+export const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+/**
+ * Reads one message entry in the format described for `parseMessageFile`.
+ */
+export const parseOutgoingMessage = (entry: any): OutgoingMessage => {
+  if (entry === null || typeof entry !== 'object' || Array.isArray(entry) || !('body' in entry)) {
+    return { body: toBody(entry) };
+  }
+
+  return {
+    body: toBody(entry.body),
+    attributes: entry.attributes ? parseMessageAttributes(entry.attributes) : undefined,
+    delaySeconds: entry.delaySeconds,
+    messageGroupId: entry.messageGroupId,
+    messageDeduplicationId: entry.messageDeduplicationId,
+  };
+};
+
+const toBody = (value: any): string => {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
@@ -0,0 +1,14 @@
+export const FIFO_SUFFIX = '.fifo';
+
+export const isFifoQueueName = (queueName: string): boolean => {
+  return queueName.endsWith(FIFO_SUFFIX);
+};
+
+export const buildDeadLetterQueueName = (queueName: string, suffix: string): string => {
+  // FIFO queues require a FIFO DLQ, so the suffix goes before `.fifo`
+  if (isFifoQueueName(queueName)) {
+    return `${queueName.slice(0, -FIFO_SUFFIX.length)}${suffix}${FIFO_SUFFIX}`;
+  }
+
+  return `${queueName}${suffix}`;
+};
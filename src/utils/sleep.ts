@@ -0,0 +1,14 @@
+/**
+ * Waits `ms` milliseconds, or until `signal` aborts, whichever comes first.
+ */
+export const sleep = (ms: number, signal: AbortSignal): Promise<void> => {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
+};
@@ -57,6 +57,34 @@ describe('Configuration', () => {
       expect(() => validateConfig(config)).toThrow(/Invalid plugin configuration/);
     });
 
+    it('should only allow batch sizes above 10 with a batching window', () => {
+      const queue = { queueName: 'test-queue', handler: 'handler.test', batchSize: 100 };
+
+      expect(() => validateConfig({ queues: [queue] })).toThrow(/Invalid plugin configuration/);
+      expect(() => validateConfig({ queues: [{ ...queue, maximumBatchingWindow: 5 }] })).not.toThrow();
+    });
+
+    it('should only allow the SQS server with the memory backend', () => {
+      expect(() => validateConfig({ backend: 'localstack', sqsServer: { enabled: true } }))
+        .toThrow('"backend" must be memory when sqsServer is enabled');
+      expect(validateConfig({ sqsServer: { enabled: true } })).toMatchObject({
+        backend: 'memory',
+        sqsServer: { enabled: true, port: 9324, host: '127.0.0.1' },
+      });
+      expect(validateConfig({}).backend).toBe('localstack');
+    });
+
+    it('should parse filter patterns and reject invalid ones', () => {
+      const queue = { queueName: 'orders', handler: 'handler.test' };
+
+      expect(validateConfig({ queues: [{ ...queue, filterPatterns: ['{"body":{"type":["order"]}}'] }] }).queues[0])
+        .toMatchObject({ filterPatterns: [{ body: { type: ['order'] } }] });
+      expect(() => validateConfig({ queues: [{ ...queue, filterPatterns: ['{"body":'] }] }))
+        .toThrow('"queues[0].filterPatterns" of queue orders is invalid: Invalid filter pattern 0');
+      expect(() => validateConfig({ queues: [{ ...queue, filterPatterns: [{ body: { type: [{ regex: 'x' }] } }] }] }))
+        .toThrow('Invalid filter pattern at body.type: unsupported operator regex');
+    });
+
     it('should reject invalid queue configuration', () => {
       const config = {
         queues: [
@@ -0,0 +1,89 @@
+import { ConnectionMonitor } from '../src/sqs/connection-monitor';
+import { SqsClientWrapper } from '../src/sqs/client';
+import { Logger } from '../src/utils/logger';
+import { PluginConfig } from '../src/config/defaults';
+
+describe('ConnectionMonitor', () => {
+  let monitor: ConnectionMonitor;
+  let mockSqsClient: jest.Mocked<SqsClientWrapper>;
+  let mockLogger: jest.Mocked<Logger>;
+
+  const flush = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+
+    mockSqsClient = {
+      checkConnection: jest.fn().mockResolvedValue(false),
+    } as any;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    monitor = new ConnectionMonitor(mockSqsClient, { healthCheckInterval: 1000 } as PluginConfig, mockLogger);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    jest.useRealTimers();
+  });
+
+  it('should check the endpoint on every interval until it recovers', async () => {
+    const onRecover = jest.fn().mockResolvedValue(undefined);
+    monitor.watch(onRecover);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(mockSqsClient.checkConnection).toHaveBeenCalledTimes(2);
+    expect(onRecover).not.toHaveBeenCalled();
+
+    mockSqsClient.checkConnection.mockResolvedValue(true);
+    await jest.advanceTimersByTimeAsync(1000);
+    await flush();
+
+    expect(onRecover).toHaveBeenCalledTimes(1);
+    expect(monitor.isWatching()).toBe(false);
+  });
+
+  it('should only run one health-check loop at a time', async () => {
+    const onRecover = jest.fn().mockResolvedValue(undefined);
+    monitor.watch(onRecover);
+    monitor.watch(onRecover);
+
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(mockSqsClient.checkConnection).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry a failed recovery on the next check', async () => {
+    mockSqsClient.checkConnection.mockResolvedValue(true);
+    const onRecover = jest.fn()
+      .mockRejectedValueOnce(new Error('Queue creation failed'))
+      .mockResolvedValue(undefined);
+    monitor.watch(onRecover);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await flush();
+
+    expect(onRecover).toHaveBeenCalledTimes(2);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Recovery failed, retrying: Queue creation failed');
+    expect(monitor.isWatching()).toBe(false);
+  });
+
+  it('should stop checking when stopped', async () => {
+    monitor.watch(jest.fn());
+    monitor.stop();
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(mockSqsClient.checkConnection).not.toHaveBeenCalled();
+  });
+});
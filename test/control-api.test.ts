@@ -0,0 +1,265 @@
+import { request } from 'http';
+import { ControlApiServer, ControlApiTarget } from '../src/server/control-api';
+import { ControlApiClient } from '../src/server/control-api-client';
+import { InvocationHistory } from '../src/server/invocation-history';
+import { InvocationRecord } from '../src/sqs/poller';
+import { Logger } from '../src/utils/logger';
+
+describe('ControlApiServer', () => {
+  let server: ControlApiServer;
+  let target: jest.Mocked<ControlApiTarget>;
+  let mockLogger: jest.Mocked<Logger>;
+
+  const call = (
+    method: string,
+    path: string,
+    body?: string,
+    headers: Record<string, string> = method === 'POST' ? { 'Content-Type': 'application/json' } : {}
+  ): Promise<{ status: number; body: any }> => {
+    return new Promise((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port: server.getPort(), method, path, headers }, res => {
+        let data = '';
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  };
+
+  beforeEach(async () => {
+    target = {
+      listQueues: jest.fn().mockResolvedValue([{ queueName: 'orders', exists: true, visible: 2, handlers: [] }]),
+      getPollerStates: jest.fn().mockReturnValue(new Map([
+        ['orders-handler.process', { isPolling: true, isPaused: false, messageCount: 3, errorCount: 0 }],
+      ])),
+      pauseQueue: jest.fn().mockResolvedValue(['orders-handler.process']),
+      resumeQueue: jest.fn().mockReturnValue([]),
+      addQueue: jest.fn().mockResolvedValue(true),
+      removeQueue: jest.fn().mockResolvedValue(['orders-handler.process']),
+      sendMessage: jest.fn().mockResolvedValue('message-1'),
+      sendMessages: jest.fn().mockResolvedValue(2),
+      purgeQueue: jest.fn().mockResolvedValue(undefined),
+      getInvocations: jest.fn().mockReturnValue([]),
+      redrive: jest.fn().mockResolvedValue({ sourceQueue: 'orders', deadLetterQueue: 'orders-dlq', moved: 4 }),
+    } as any;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    server = new ControlApiServer(target, { enabled: true, port: 0, host: '127.0.0.1' }, mockLogger);
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should list queues and poller states', async () => {
+    const queues = await call('GET', '/queues');
+    const pollers = await call('GET', '/pollers');
+
+    expect(queues).toEqual({ status: 200, body: [expect.objectContaining({ queueName: 'orders', visible: 2 })] });
+    expect(pollers.body['orders-handler.process']).toEqual(expect.objectContaining({ messageCount: 3 }));
+  });
+
+  it('should pause pollers and report unknown targets', async () => {
+    const paused = await call('POST', '/pollers/orders/pause');
+    const resumed = await call('POST', '/pollers/missing/resume');
+
+    expect(target.pauseQueue).toHaveBeenCalledWith('orders');
+    expect(paused).toEqual({ status: 200, body: { pollers: ['orders-handler.process'] } });
+    expect(resumed).toEqual({ status: 404, body: { error: 'No poller found for: missing' } });
+  });
+
+  it('should add pollers from the configuration or for a new handler, and remove them', async () => {
+    target.addQueue.mockResolvedValueOnce(true).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const configured = await call('POST', '/pollers/processOrder/add');
+    const adHoc = await call('POST', '/pollers/extra/add', JSON.stringify({ handler: 'handlers/extra.process' }));
+    const failed = await call('POST', '/pollers/missing/add');
+    const removed = await call('POST', '/pollers/orders/remove');
+
+    expect(target.addQueue).toHaveBeenNthCalledWith(1, 'processOrder');
+    expect(target.addQueue).toHaveBeenNthCalledWith(2, { queueName: 'extra', handler: 'handlers/extra.process' });
+    expect(configured).toEqual({ status: 200, body: { added: 'processOrder' } });
+    expect(adHoc.status).toBe(200);
+    expect(failed.status).toBe(409);
+    expect(removed).toEqual({ status: 200, body: { pollers: ['orders-handler.process'] } });
+  });
+
+  it('should send a single message or a batch', async () => {
+    const single = await call('POST', '/queues/orders/messages', JSON.stringify({
+      body: { id: 1 },
+      attributes: { source: 'test' },
+    }));
+    const batch = await call('POST', '/queues/orders/messages', JSON.stringify({
+      messages: ['one', 'two', 'three'],
+    }));
+
+    expect(single.body).toEqual({ messageId: 'message-1' });
+    expect(target.sendMessage).toHaveBeenCalledWith('orders', expect.objectContaining({
+      body: '{"id":1}',
+      attributes: { source: { DataType: 'String', StringValue: 'test' } },
+    }));
+    expect(batch.body).toEqual({ sent: 2, failed: 1 });
+    expect(target.sendMessages.mock.calls[0][1].map(message => message.body)).toEqual(['one', 'two', 'three']);
+  });
+
+  it('should reject invalid JSON', async () => {
+    const response = await call('POST', '/queues/orders/messages', '{nope');
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toContain('Invalid JSON body');
+    expect(target.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should redrive with count and rate', async () => {
+    const response = await call('POST', '/queues/orders%2Efifo/redrive', JSON.stringify({ count: 5, rate: 2 }));
+
+    expect(target.redrive).toHaveBeenCalledWith('orders.fifo', { count: 5, rate: 2 });
+    expect(response.body.moved).toBe(4);
+  });
+
+  it('should purge a queue', async () => {
+    const response = await call('POST', '/queues/orders/purge');
+
+    expect(target.purgeQueue).toHaveBeenCalledWith('orders');
+    expect(response.body).toEqual({ purged: 'orders' });
+  });
+
+  it('should serve the dashboard page', async () => {
+    const page = await new Promise<{ type?: string; body: string }>((resolve, reject) => {
+      request({ host: '127.0.0.1', port: server.getPort(), path: '/' }, res => {
+        let data = '';
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => resolve({ type: res.headers['content-type'], body: data }));
+      }).on('error', reject).end();
+    });
+
+    expect(page.type).toContain('text/html');
+    expect(page.body).toContain('<h2>Invocations</h2>');
+    expect(page.body).toContain('setInterval(refresh, 2000)');
+  });
+
+  it('should return recent invocations', async () => {
+    await call('GET', '/invocations?limit=5');
+
+    expect(target.getInvocations).toHaveBeenCalledWith(5);
+  });
+
+  it('should only accept JSON request bodies', async () => {
+    const form = await call('POST', '/queues/orders/purge', 'queue=orders', {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    });
+    const plain = await call('POST', '/pollers/orders/pause', undefined, {});
+    const json = await call('POST', '/pollers/orders/pause', undefined, {
+      'Content-Type': 'application/json; charset=utf-8',
+    });
+
+    expect(form).toEqual({ status: 415, body: { error: 'Content-Type must be application/json' } });
+    expect(plain.status).toBe(415);
+    expect(json.status).toBe(200);
+    expect(target.purgeQueue).not.toHaveBeenCalled();
+    expect(target.pauseQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject requests that are not addressed to the loopback host and port', async () => {
+    const port = server.getPort();
+    const rebound = await call('GET', '/queues', undefined, { Host: `attacker.example:${port}` });
+    const otherPort = await call('GET', '/queues', undefined, { Host: '127.0.0.1:1' });
+    const crossSite = await call('POST', '/queues/orders/purge', undefined, {
+      'Content-Type': 'application/json',
+      Origin: 'http://attacker.example',
+    });
+    const sameSite = await call('POST', '/queues/orders/purge', undefined, {
+      'Content-Type': 'application/json',
+      Host: `localhost:${port}`,
+      Origin: `http://localhost:${port}`,
+    });
+
+    expect(rebound).toEqual({ status: 403, body: { error: `Host not allowed: attacker.example:${port}` } });
+    expect(otherPort.status).toBe(403);
+    expect(crossSite).toEqual({ status: 403, body: { error: 'Origin not allowed: http://attacker.example' } });
+    expect(sameSite.status).toBe(200);
+    expect(target.listQueues).not.toHaveBeenCalled();
+    expect(target.purgeQueue).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map errors to status codes', async () => {
+    target.listQueues.mockRejectedValue(new Error('endpoint down'));
+
+    expect(await call('GET', '/queues')).toEqual({ status: 500, body: { error: 'endpoint down' } });
+    expect((await call('DELETE', '/queues')).status).toBe(405);
+    expect((await call('GET', '/nothing')).status).toBe(404);
+  });
+});
+
+describe('ControlApiClient', () => {
+  let server: ControlApiServer;
+  let target: jest.Mocked<ControlApiTarget>;
+  let client: ControlApiClient;
+
+  beforeEach(async () => {
+    target = {
+      pauseQueue: jest.fn().mockResolvedValue(['orders-handler.process']),
+      resumeQueue: jest.fn().mockReturnValue([]),
+      addQueue: jest.fn().mockResolvedValue(true),
+      removeQueue: jest.fn().mockResolvedValue(['extra-handlers/extra.process']),
+    } as any;
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    server = new ControlApiServer(target, { enabled: true, port: 0, host: '127.0.0.1' }, logger);
+    await server.start();
+    client = new ControlApiClient({ enabled: true, port: server.getPort()!, host: '127.0.0.1' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should steer the pollers of the running session', async () => {
+    await expect(client.pausePollers('orders')).resolves.toEqual(['orders-handler.process']);
+    await client.addPoller('extra', 'handlers/extra.process');
+    await expect(client.removePollers('extra')).resolves.toEqual(['extra-handlers/extra.process']);
+
+    expect(target.pauseQueue).toHaveBeenCalledWith('orders');
+    expect(target.addQueue).toHaveBeenCalledWith({ queueName: 'extra', handler: 'handlers/extra.process' });
+  });
+
+  it('should pass on the errors of the control API', async () => {
+    await expect(client.resumePollers('orders')).rejects.toThrow('No poller found for: orders');
+  });
+
+  it('should explain when no session is listening', async () => {
+    await server.stop();
+
+    await expect(client.pausePollers('orders')).rejects.toThrow(`No offline session is listening at ${client.getUrl()}`);
+  });
+});
+
+describe('InvocationHistory', () => {
+  const record = (id: string): InvocationRecord => ({
+    queueName: 'orders',
+    handler: 'handler.process',
+    messageIds: [id],
+    startedAt: new Date(),
+    duration: 1,
+    success: true,
+  });
+
+  it('should keep the newest records up to its capacity', () => {
+    const history = new InvocationHistory(2);
+
+    history.add(record('a'));
+    history.add(record('b'));
+    history.add(record('c'));
+
+    expect(history.list().map(entry => entry.messageIds[0])).toEqual(['c', 'b']);
+    expect(history.list(1)).toHaveLength(1);
+  });
+});
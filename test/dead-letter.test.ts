@@ -0,0 +1,89 @@
+import { Message } from '@aws-sdk/client-sqs';
+import {
+  buildDeadLetterCopy,
+  buildDeadLetterEnvelope,
+  DeadLetterFailure,
+  FAILURE_ATTRIBUTES,
+  parseRedrivePolicy,
+} from '../src/sqs/dead-letter';
+
+describe('dead letter messages', () => {
+  const failure: DeadLetterFailure = {
+    reason: 'Handler exploded',
+    queueName: 'orders',
+    handler: 'handlers/order.process',
+    receiveCount: 3,
+  };
+
+  const message: Message = {
+    MessageId: 'msg-1',
+    ReceiptHandle: 'handle-1',
+    Body: '{"orderId":42}',
+    MessageAttributes: {
+      tenant: { DataType: 'String', StringValue: 'acme', StringListValues: [], BinaryListValues: [] },
+    },
+  };
+
+  describe('parseRedrivePolicy', () => {
+    it('should parse the queue attribute', () => {
+      const policy = parseRedrivePolicy(JSON.stringify({
+        deadLetterTargetArn: 'arn:aws:sqs:us-east-1:000000000000:orders-dlq',
+        maxReceiveCount: '5',
+      }));
+
+      expect(policy).toEqual({
+        deadLetterTargetArn: 'arn:aws:sqs:us-east-1:000000000000:orders-dlq',
+        maxReceiveCount: 5,
+      });
+    });
+
+    it('should ignore missing or malformed policies', () => {
+      expect(parseRedrivePolicy(undefined)).toBeUndefined();
+      expect(parseRedrivePolicy('not json')).toBeUndefined();
+      expect(parseRedrivePolicy(JSON.stringify({ maxReceiveCount: 3 }))).toBeUndefined();
+    });
+  });
+
+  describe('buildDeadLetterCopy', () => {
+    it('should keep the body and attributes and add failure metadata', () => {
+      const copy = buildDeadLetterCopy(message, failure);
+
+      expect(copy.body).toBe('{"orderId":42}');
+      expect(copy.attributes).toMatchObject({
+        tenant: { DataType: 'String', StringValue: 'acme' },
+        [FAILURE_ATTRIBUTES.reason]: { DataType: 'String', StringValue: 'Handler exploded' },
+        [FAILURE_ATTRIBUTES.sourceQueue]: { DataType: 'String', StringValue: 'orders' },
+        [FAILURE_ATTRIBUTES.handler]: { DataType: 'String', StringValue: 'handlers/order.process' },
+        [FAILURE_ATTRIBUTES.receiveCount]: { DataType: 'Number', StringValue: '3' },
+      });
+      expect(copy.attributes?.[FAILURE_ATTRIBUTES.failedAt].StringValue).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('should stay within the message attribute limit', () => {
+      const attributes: Message['MessageAttributes'] = {};
+      for (let i = 0; i < 8; i++) {
+        attributes[`attr${i}`] = { DataType: 'String', StringValue: `${i}` };
+      }
+
+      const copy = buildDeadLetterCopy({ ...message, MessageAttributes: attributes }, failure);
+
+      expect(Object.keys(copy.attributes!)).toHaveLength(10);
+      expect(Object.keys(copy.attributes!)).toEqual(
+        expect.arrayContaining([FAILURE_ATTRIBUTES.reason, FAILURE_ATTRIBUTES.failedAt])
+      );
+    });
+  });
+
+  describe('buildDeadLetterEnvelope', () => {
+    it('should wrap the original message in a JSON envelope', () => {
+      const envelope = JSON.parse(buildDeadLetterEnvelope(message, failure).body);
+
+      expect(envelope).toMatchObject({
+        originalMessage: { MessageId: 'msg-1', Body: '{"orderId":42}' },
+        failureReason: 'Handler exploded',
+        queueName: 'orders',
+        handler: 'handlers/order.process',
+      });
+    });
+  });
+});
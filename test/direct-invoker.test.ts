@@ -0,0 +1,102 @@
+import { DirectInvoker } from '../src/lambda/direct-invoker';
+import { LambdaInvoker } from '../src/lambda/invoker';
+import { SQSEvent } from '../src/lambda/event-builder';
+import { PluginConfig } from '../src/config/defaults';
+import { ConsoleLogger } from '../src/utils/logger';
+
+describe('DirectInvoker', () => {
+  let directInvoker: DirectInvoker;
+  let mockInvoker: jest.Mocked<LambdaInvoker>;
+
+  const functionDefinition = { handler: 'handlers/order.process', timeout: 30000 };
+
+  beforeEach(() => {
+    mockInvoker = {
+      invokeHandler: jest.fn().mockResolvedValue({ success: true, result: undefined }),
+    } as any;
+
+    directInvoker = new DirectInvoker(mockInvoker, { region: 'us-east-1' } as PluginConfig);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should build an SQS event from the messages', async () => {
+    const invocation = await directInvoker.invoke(functionDefinition, [
+      { body: '{"orderId":42}', attributes: { tenant: { DataType: 'String', StringValue: 'acme' } } },
+      { body: 'second', messageGroupId: 'customer-1' },
+    ], 'orders');
+
+    const [handler, event] = mockInvoker.invokeHandler.mock.calls[0];
+    expect(handler).toBe('handlers/order.process');
+    expect(event).toBe(invocation.event);
+    expect(event.Records).toHaveLength(2);
+    expect(event.Records[0]).toMatchObject({
+      body: '{"orderId":42}',
+      eventSource: 'aws:sqs',
+      eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:orders',
+      messageAttributes: { tenant: { stringValue: 'acme', dataType: 'String' } },
+    });
+    expect(event.Records[1].attributes.MessageGroupId).toBe('customer-1');
+    expect(event.Records[0].messageId).not.toBe(event.Records[1].messageId);
+  });
+
+  it('should pass a complete SQS event through unchanged', async () => {
+    const event = { Records: [{ messageId: 'fixed', body: 'hello' }] } as SQSEvent;
+
+    await directInvoker.invoke(functionDefinition, event, 'orders');
+
+    expect(mockInvoker.invokeHandler).toHaveBeenCalledWith('handlers/order.process', event, functionDefinition);
+  });
+
+  it('should capture console output and batch item failures', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    mockInvoker.invokeHandler.mockImplementation(async (_handler, event) => {
+      console.log('processing %d record(s)', event.Records.length);
+      console.error('record failed');
+      return { success: true, result: { batchItemFailures: [{ itemIdentifier: event.Records[0].messageId }] } };
+    });
+
+    const invocation = await directInvoker.invoke(functionDefinition, [{ body: 'hello' }], 'orders');
+
+    expect(invocation.logs).toEqual(['processing 1 record(s)', 'record failed']);
+    expect(log).toHaveBeenCalledWith('processing %d record(s)', 1);
+    expect(invocation.batchItemFailures).toEqual([invocation.event.Records[0].messageId]);
+    expect(invocation.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should only capture the handler\'s own output', async () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const logger = new ConsoleLogger('[plugin]');
+    let release: () => void = () => undefined;
+    mockInvoker.invokeHandler.mockImplementation(async () => {
+      logger.info('invoking handler');
+      await new Promise<void>(resolve => { release = resolve; });
+      console.log('from the handler');
+      return { success: true };
+    });
+
+    const invoking = directInvoker.invoke(functionDefinition, [{ body: 'hello' }], 'orders');
+    await new Promise(resolve => setImmediate(resolve));
+    console.log('from another handler');
+    release();
+    const invocation = await invoking;
+
+    expect(invocation.logs).toEqual(['from the handler']);
+    expect(log).toHaveBeenCalledWith('[plugin] invoking handler');
+    expect(log).toHaveBeenCalledWith('from the handler');
+    expect(log).toHaveBeenCalledWith('from another handler');
+  });
+
+  it('should restore the console when the handler fails', async () => {
+    const originalLog = console.log;
+    mockInvoker.invokeHandler.mockResolvedValue({ success: false, error: new Error('boom') });
+
+    const invocation = await directInvoker.invoke(functionDefinition, [{ body: 'hello' }], 'orders');
+
+    expect(invocation).toMatchObject({ success: false, error: new Error('boom') });
+    expect(console.log).toBe(originalLog);
+  });
+});
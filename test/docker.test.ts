@@ -1,3 +1,6 @@
+import { existsSync, mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { DockerDetector } from '../src/utils/docker';
 
 // Mock dockerode to avoid actual Docker calls in tests
@@ -8,6 +11,12 @@ jest.mock('child_process', () => ({
   exec: jest.fn()
 }));
 
+// Mock the socket and container marker file checks
+jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
+  existsSync: jest.fn(),
+}));
+
 describe('DockerDetector', () => {
   let dockerDetector: DockerDetector;
   let mockLogger: any;
@@ -20,6 +29,14 @@ describe('DockerDetector', () => {
       error: jest.fn(),
     };
     dockerDetector = new DockerDetector(mockLogger);
+
+    // No sockets, container marker files or CLI unless a test says so
+    jest.mocked(existsSync).mockReturnValue(false);
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { exec } = require('child_process');
+    exec.mockImplementation((cmd: string, callback: (error: Error | null, result?: any) => void) => {
+      callback(new Error('Command not found'));
+    });
   });
 
   describe('getEndpointUrl', () => {
@@ -37,6 +54,7 @@ describe('DockerDetector', () => {
         isDockerDesktop: false,
         host: 'localhost',
         port: 4566,
+        strategy: 'default endpoint',
       });
 
       const result = await dockerDetector.getEndpointUrl();
@@ -44,12 +62,29 @@ describe('DockerDetector', () => {
       expect(result).toBe('http://localhost:4566');
     });
 
+    it('should log the strategy that chose the endpoint', async () => {
+      jest.spyOn(dockerDetector as any, 'detectDocker').mockResolvedValue({
+        isRunning: true,
+        isDockerDesktop: false,
+        host: 'aws',
+        port: 4566,
+        strategy: 'LocalStack container found by compose service aws, reached over shared network app_default',
+      });
+
+      await dockerDetector.getEndpointUrl();
+
+      expect(mockLogger.info).toHaveBeenCalledWith(
+        'LocalStack endpoint chosen by: LocalStack container found by compose service aws, reached over shared network app_default'
+      );
+    });
+
     it('should return Docker internal host when running inside container', async () => {
       jest.spyOn(dockerDetector as any, 'detectDocker').mockResolvedValue({
         isRunning: true,
         isDockerDesktop: false,
         host: 'localstack',
         port: 4566,
+        strategy: 'default container hostname',
       });
 
       const result = await dockerDetector.getEndpointUrl();
@@ -74,11 +109,13 @@ describe('DockerDetector', () => {
         isDockerDesktop: false,
         host: 'localhost',
         port: 4566,
+        strategy: 'default endpoint',
       });
     });
 
     it('should detect when running inside Docker container', async () => {
       jest.spyOn(dockerDetector as any, 'isDockerAvailable').mockResolvedValue(true);
+      jest.spyOn(dockerDetector as any, 'getLocalStackContainerInfo').mockResolvedValue(null);
       jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(true);
       jest.spyOn(dockerDetector as any, 'getDockerInternalHost').mockReturnValue('localstack');
 
@@ -89,6 +126,7 @@ describe('DockerDetector', () => {
         isDockerDesktop: false,
         host: 'localstack',
         port: 4566,
+        strategy: 'default container hostname',
       });
     });
 
@@ -102,12 +140,14 @@ describe('DockerDetector', () => {
         isDockerDesktop: false,
         host: 'localhost',
         port: 4566,
+        strategy: 'default endpoint',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith('Error detecting Docker environment:', expect.any(Error));
     });
 
     it('should detect Docker Desktop when running', async () => {
       jest.spyOn(dockerDetector as any, 'isDockerAvailable').mockResolvedValue(true);
+      jest.spyOn(dockerDetector as any, 'getLocalStackContainerInfo').mockResolvedValue(null);
       jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(false);
       jest.spyOn(dockerDetector as any, 'isDockerDesktopRunning').mockResolvedValue(true);
 
@@ -118,31 +158,29 @@ describe('DockerDetector', () => {
         isDockerDesktop: true,
         host: 'localhost',
         port: 4566,
+        strategy: 'Docker daemon on localhost',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith('Docker Desktop detected and running');
     });
 
-    it('should detect LocalStack container when available', async () => {
+    it('should prefer a detected LocalStack container', async () => {
+      const containerInfo = {
+        host: 'localhost',
+        port: 4567,
+        strategy: 'LocalStack container found by image localstack/localstack, reached on its published port',
+      };
       jest.spyOn(dockerDetector as any, 'isDockerAvailable').mockResolvedValue(true);
-      jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(false);
-      jest.spyOn(dockerDetector as any, 'isDockerDesktopRunning').mockResolvedValue(false);
-      jest.spyOn(dockerDetector as any, 'getLocalStackContainerInfo').mockResolvedValue({
-        host: 'localstack',
-        port: 4566,
-      });
+      jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(true);
+      jest.spyOn(dockerDetector as any, 'getLocalStackContainerInfo').mockResolvedValue(containerInfo);
 
       const result = await dockerDetector.detectDocker();
 
       expect(result).toEqual({
         isRunning: true,
         isDockerDesktop: false,
-        host: 'localstack',
-        port: 4566,
-      });
-      expect(mockLogger.debug).toHaveBeenCalledWith('LocalStack container detected', {
-        host: 'localstack',
-        port: 4566,
+        ...containerInfo,
       });
+      expect(mockLogger.debug).toHaveBeenCalledWith('LocalStack container detected', containerInfo);
     });
 
     it('should return default when Docker available but LocalStack not found', async () => {
@@ -158,6 +196,7 @@ describe('DockerDetector', () => {
         isDockerDesktop: false,
         host: 'localhost',
         port: 4566,
+        strategy: 'default endpoint',
       });
       expect(mockLogger.debug).toHaveBeenCalledWith('Docker available but LocalStack not detected');
     });
@@ -291,6 +330,7 @@ describe('DockerDetector', () => {
       MockDocker.mockImplementation(() => ({
         listContainers: jest.fn().mockResolvedValue([
           {
+            Image: 'localstack/localstack:latest',
             Ports: [
               {
                 PrivatePort: 4566,
@@ -306,6 +346,7 @@ describe('DockerDetector', () => {
       expect(result).toEqual({
         host: '127.0.0.1',
         port: 4566,
+        strategy: 'LocalStack container found by image localstack/localstack:latest, reached on its published port',
       });
     });
 
@@ -315,6 +356,7 @@ describe('DockerDetector', () => {
       MockDocker.mockImplementation(() => ({
         listContainers: jest.fn().mockResolvedValue([
           {
+            Image: 'localstack/localstack:latest',
             Ports: [
               {
                 PrivatePort: 4566,
@@ -329,6 +371,7 @@ describe('DockerDetector', () => {
       expect(result).toEqual({
         host: 'localhost',
         port: 4566,
+        strategy: 'LocalStack container found by image localstack/localstack:latest, reached on its published port',
       });
     });
 
@@ -338,6 +381,7 @@ describe('DockerDetector', () => {
       MockDocker.mockImplementation(() => ({
         listContainers: jest.fn().mockResolvedValue([
           {
+            Image: 'localstack/localstack:latest',
             Ports: [
               {
                 PrivatePort: 8080,
@@ -352,6 +396,7 @@ describe('DockerDetector', () => {
       expect(result).toEqual({
         host: 'localhost',
         port: 4566,
+        strategy: 'LocalStack container found by image localstack/localstack:latest, no published port',
       });
     });
 
@@ -368,6 +413,175 @@ describe('DockerDetector', () => {
     });
   });
 
+  describe('LocalStack container matching', () => {
+    const mockContainers = (containers: any[], inspect?: any) => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const MockDocker = require('dockerode');
+      MockDocker.mockImplementation(() => ({
+        listContainers: jest.fn().mockResolvedValue(containers),
+        getContainer: jest.fn(() => ({
+          inspect: inspect ? jest.fn().mockResolvedValue(inspect) : jest.fn().mockRejectedValue(new Error('no such container')),
+        })),
+      }));
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      delete process.env.DOCKER_HOST;
+    });
+
+    afterEach(() => {
+      delete process.env.DOCKER_HOST;
+    });
+
+    it('should find LocalStack by compose service label', async () => {
+      mockContainers([
+        { Image: 'postgres:16', Names: ['/app-db-1'], Labels: {}, Ports: [] },
+        {
+          Image: 'my-registry/aws-mock:3',
+          Names: ['/app-aws-1'],
+          Labels: { 'com.docker.compose.service': 'localstack' },
+          Ports: [{ PrivatePort: 4566, PublicPort: 4600 }],
+        },
+      ]);
+
+      const result = await (dockerDetector as any).getLocalStackContainerInfo();
+      expect(result).toEqual({
+        host: 'localhost',
+        port: 4600,
+        strategy: 'LocalStack container found by compose service localstack, reached on its published port',
+      });
+    });
+
+    it('should find LocalStack by container name', async () => {
+      mockContainers([
+        { Image: 'custom-image', Names: ['/my-localstack'], Labels: {}, Ports: [{ PrivatePort: 4566, PublicPort: 4566 }] },
+      ]);
+
+      const result = await (dockerDetector as any).getLocalStackContainerInfo();
+      expect(result.strategy).toBe('LocalStack container found by container name my-localstack, reached on its published port');
+    });
+
+    it('should ignore containers that are not LocalStack', async () => {
+      mockContainers([{ Image: 'redis', Names: ['/cache'], Labels: {}, Ports: [] }]);
+
+      const result = await (dockerDetector as any).getLocalStackContainerInfo();
+      expect(result).toBeNull();
+    });
+
+    it('should use the compose service name on a shared network', async () => {
+      jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(true);
+      mockContainers(
+        [{
+          Image: 'localstack/localstack:3',
+          Names: ['/app-localstack-1'],
+          Labels: { 'com.docker.compose.service': 'aws' },
+          Ports: [],
+          NetworkSettings: { Networks: { app_default: { IPAddress: '172.18.0.2' } } },
+        }],
+        { NetworkSettings: { Networks: { app_default: {} } } }
+      );
+
+      const result = await (dockerDetector as any).getLocalStackContainerInfo();
+      expect(result).toEqual({
+        host: 'aws',
+        port: 4566,
+        strategy: 'LocalStack container found by image localstack/localstack:3, reached over shared network app_default',
+      });
+    });
+
+    it('should use the Docker host for published ports with Docker-in-Docker', async () => {
+      process.env.DOCKER_HOST = 'tcp://docker:2375';
+      jest.spyOn(dockerDetector as any, 'isRunningInDocker').mockResolvedValue(true);
+      mockContainers([{
+        Image: 'localstack/localstack',
+        Names: ['/localstack'],
+        Labels: {},
+        Ports: [{ PrivatePort: 4566, PublicPort: 4566, IP: '0.0.0.0' }],
+        NetworkSettings: { Networks: { bridge: { IPAddress: '172.17.0.2' } } },
+      }]);
+
+      const result = await (dockerDetector as any).getLocalStackContainerInfo();
+      expect(result).toMatchObject({ host: 'docker', port: 4566 });
+    });
+  });
+
+  describe('getDockerClient', () => {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const MockDocker = require('dockerode');
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      delete process.env.DOCKER_HOST;
+      delete process.env.CONTAINER_HOST;
+    });
+
+    afterEach(() => {
+      delete process.env.DOCKER_HOST;
+      delete process.env.CONTAINER_HOST;
+      delete process.env.DOCKER_TLS_VERIFY;
+      delete process.env.DOCKER_CERT_PATH;
+    });
+
+    it('should leave DOCKER_HOST to dockerode', async () => {
+      process.env.DOCKER_HOST = 'tcp://docker:2376';
+
+      await dockerDetector.getDockerClient();
+
+      expect(MockDocker).toHaveBeenCalledWith(undefined);
+      expect(mockLogger.debug).toHaveBeenCalledWith('Connecting to Docker using DOCKER_HOST');
+    });
+
+    it('should use the host of the current Docker context', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      const { exec } = require('child_process');
+      exec.mockImplementation((cmd: string, callback: (error: Error | null, result?: any) => void) => {
+        callback(null, { stdout: 'unix:///Users/me/.colima/default/docker.sock\n' });
+      });
+
+      await dockerDetector.getDockerClient();
+
+      expect(MockDocker).toHaveBeenCalledWith({ socketPath: '/Users/me/.colima/default/docker.sock' });
+    });
+
+    it('should connect to TLS hosts with the client certificates', async () => {
+      const certPath = mkdtempSync(join(tmpdir(), 'docker-certs-'));
+      ['ca', 'cert', 'key'].forEach(name => writeFileSync(join(certPath, `${name}.pem`), name));
+      process.env.CONTAINER_HOST = 'tcp://podman:8443';
+      process.env.DOCKER_TLS_VERIFY = '1';
+      process.env.DOCKER_CERT_PATH = certPath;
+
+      await dockerDetector.getDockerClient();
+
+      expect(MockDocker).toHaveBeenCalledWith({
+        host: 'podman',
+        port: 8443,
+        protocol: 'https',
+        ca: Buffer.from('ca'),
+        cert: Buffer.from('cert'),
+        key: Buffer.from('key'),
+      });
+    });
+
+    it('should reject TLS hosts without client certificates', async () => {
+      process.env.CONTAINER_HOST = 'tcp://podman:2376';
+      process.env.DOCKER_CERT_PATH = join(tmpdir(), 'missing-docker-certs');
+
+      await expect(dockerDetector.getDockerClient()).rejects.toThrow(
+        'Docker host tcp://podman:2376 uses TLS, but its client certificates could not be read'
+      );
+    });
+
+    it('should fall back to the Podman socket', async () => {
+      jest.mocked(existsSync).mockImplementation(path => path === '/run/podman/podman.sock');
+
+      await dockerDetector.getDockerClient();
+
+      expect(MockDocker).toHaveBeenCalledWith({ socketPath: '/run/podman/podman.sock' });
+      expect(mockLogger.debug).toHaveBeenCalledWith('Connecting to Docker using the Podman socket /run/podman/podman.sock');
+    });
+  });
+
   describe('getDockerInternalHost', () => {
     beforeEach(() => {
       delete process.env.LOCALSTACK_HOST;
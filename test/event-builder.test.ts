@@ -87,7 +87,7 @@ describe('EventBuilder', () => {
 
   describe('buildLambdaContext', () => {
     it('should build Lambda context', () => {
-      const context = eventBuilder.buildLambdaContext('test-function', 30000);
+      const context = eventBuilder.buildLambdaContext({ handler: 'handler.test', functionName: 'test-function' }, 30000);
 
       expect(context.functionName).toBe('test-function');
       expect(context.functionVersion).toBe('$LATEST');
@@ -99,7 +99,7 @@ describe('EventBuilder', () => {
     });
 
     it('should track remaining time correctly', (done) => {
-      const context = eventBuilder.buildLambdaContext('test-function', 1000);
+      const context = eventBuilder.buildLambdaContext({ handler: 'handler.test', functionName: 'test-function' }, 1000);
       const initialTime = context.getRemainingTimeInMillis();
 
       setTimeout(() => {
@@ -110,8 +110,63 @@ describe('EventBuilder', () => {
       }, 100);
     });
 
+    describe('with service info', () => {
+      const serviceInfo = {
+        service: 'orders',
+        stage: 'dev',
+        timeout: 10,
+        memorySize: 512,
+        functions: {
+          process: { timeout: 45, memorySize: 2048 },
+          report: {},
+          audit: { name: 'custom-audit' },
+        },
+      };
+
+      beforeEach(() => {
+        eventBuilder = new EventBuilder('eu-west-1', '123456789012', serviceInfo);
+      });
+
+      it('should use the deployed function name and settings', () => {
+        const context = eventBuilder.buildLambdaContext({ handler: 'handlers/order.process', functionName: 'process' }, 30000);
+
+        expect(context.functionName).toBe('orders-dev-process');
+        expect(context.invokedFunctionArn).toBe('arn:aws:lambda:eu-west-1:123456789012:function:orders-dev-process');
+        expect(context.logGroupName).toBe('/aws/lambda/orders-dev-process');
+        expect(context.memoryLimitInMB).toBe('2048');
+        expect(context.getRemainingTimeInMillis()).toBeGreaterThan(44000);
+      });
+
+      it('should fall back to the provider settings', () => {
+        const context = eventBuilder.buildLambdaContext({ handler: 'handlers/report.run', functionName: 'report' }, 30000);
+
+        expect(context.memoryLimitInMB).toBe('512');
+        expect(context.getRemainingTimeInMillis()).toBeLessThanOrEqual(10000);
+        expect(context.getRemainingTimeInMillis()).toBeGreaterThan(9000);
+      });
+
+      it('should use a custom function name', () => {
+        const context = eventBuilder.buildLambdaContext({ handler: 'handlers/audit.run', functionName: 'audit' }, 30000);
+
+        expect(context.functionName).toBe('custom-audit');
+      });
+
+      it('should use the handler for queues without a function', () => {
+        const context = eventBuilder.buildLambdaContext({ handler: 'handlers/misc.run' }, 30000);
+
+        expect(context.functionName).toBe('handlers/misc.run');
+        expect(context.memoryLimitInMB).toBe('512');
+      });
+
+      it('should resolve the function timeout', () => {
+        expect(eventBuilder.getFunctionTimeout({ handler: 'handlers/order.process', functionName: 'process' }, 30000)).toBe(45000);
+        expect(eventBuilder.getFunctionTimeout({ handler: 'handlers/report.run', functionName: 'report' }, 30000)).toBe(10000);
+        expect(eventBuilder.getFunctionTimeout({ handler: 'handlers/report.run', timeout: 5000 }, 30000)).toBe(5000);
+      });
+    });
+
     it('should handle context methods', () => {
-      const context = eventBuilder.buildLambdaContext('test-function', 30000);
+      const context = eventBuilder.buildLambdaContext({ handler: 'handler.test', functionName: 'test-function' }, 30000);
 
       expect(() => context.succeed('test')).not.toThrow();
       expect(() => context.done()).not.toThrow();
@@ -0,0 +1,113 @@
+import { evaluateFilterPatterns, parseFilterPatterns } from '../src/sqs/filter';
+import { SQSRecord } from '../src/lambda/event-builder';
+
+describe('evaluateFilterPatterns', () => {
+  const buildRecord = (body: string, messageAttributes: Record<string, any> = {}): SQSRecord => ({
+    messageId: 'msg-1',
+    receiptHandle: 'handle-1',
+    body,
+    attributes: {
+      ApproximateReceiveCount: '1',
+      SentTimestamp: '1700000000000',
+      SenderId: 'sender',
+      ApproximateFirstReceiveTimestamp: '1700000000000',
+    },
+    messageAttributes,
+    md5OfBody: 'md5',
+    eventSource: 'aws:sqs',
+    eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:test-queue',
+    awsRegion: 'us-east-1',
+  });
+
+  const order = buildRecord(JSON.stringify({
+    type: 'order',
+    status: 'Created',
+    amount: 150,
+    tags: ['priority', 'eu'],
+    customer: { id: 'cust-42', email: 'jane@example.com' },
+  }));
+
+  const matches = (pattern: Record<string, any>, record = order) =>
+    evaluateFilterPatterns(record, [pattern]).matches;
+
+  it('should match exact values in a JSON body', () => {
+    expect(matches({ body: { type: ['order'] } })).toBe(true);
+    expect(matches({ body: { type: ['refund'] } })).toBe(false);
+    expect(matches({ body: { amount: [150] } })).toBe(true);
+  });
+
+  it('should match nested fields and array values', () => {
+    expect(matches({ body: { customer: { id: ['cust-42'] } } })).toBe(true);
+    expect(matches({ body: { tags: ['eu'] } })).toBe(true);
+  });
+
+  it('should support prefix, suffix and equals-ignore-case', () => {
+    expect(matches({ body: { customer: { id: [{ prefix: 'cust-' }] } } })).toBe(true);
+    expect(matches({ body: { customer: { email: [{ suffix: '@example.com' }] } } })).toBe(true);
+    expect(matches({ body: { status: [{ 'equals-ignore-case': 'created' }] } })).toBe(true);
+    expect(matches({ body: { status: [{ prefix: { 'equals-ignore-case': 'CRE' } }] } })).toBe(true);
+  });
+
+  it('should support numeric ranges', () => {
+    expect(matches({ body: { amount: [{ numeric: ['>', 100, '<=', 200] }] } })).toBe(true);
+    expect(matches({ body: { amount: [{ numeric: ['<', 100] }] } })).toBe(false);
+  });
+
+  it('should support exists and anything-but', () => {
+    expect(matches({ body: { customer: { id: [{ exists: true }] } } })).toBe(true);
+    expect(matches({ body: { discount: [{ exists: false }] } })).toBe(true);
+    expect(matches({ body: { discount: [{ exists: true }] } })).toBe(false);
+    expect(matches({ body: { type: [{ 'anything-but': ['refund', 'cancel'] }] } })).toBe(true);
+    expect(matches({ body: { type: [{ 'anything-but': 'order' }] } })).toBe(false);
+    expect(matches({ body: { status: [{ 'anything-but': { prefix: 'Cre' } }] } })).toBe(false);
+  });
+
+  it('should match non-JSON bodies as plain strings only', () => {
+    const plain = buildRecord('hello world');
+
+    expect(matches({ body: ['hello world'] }, plain)).toBe(true);
+    expect(matches({ body: [{ prefix: 'hello' }] }, plain)).toBe(true);
+    expect(matches({ body: { type: ['order'] } }, plain)).toBe(false);
+  });
+
+  it('should match message attributes', () => {
+    const record = buildRecord('{}', { source: { stringValue: 'billing', dataType: 'String' } });
+
+    expect(matches({ messageAttributes: { source: { stringValue: ['billing'] } } }, record)).toBe(true);
+  });
+
+  it('should accept a record when any pattern matches and report every rejection otherwise', () => {
+    expect(evaluateFilterPatterns(order, [{ body: { type: ['refund'] } }, { body: { amount: [150] } }]).matches)
+      .toBe(true);
+
+    const result = evaluateFilterPatterns(order, [{ body: { type: ['refund'] } }, { body: { status: ['Paid'] } }]);
+    expect(result.matches).toBe(false);
+    expect(result.rejections).toEqual([
+      '{"body":{"type":["refund"]}} (no match at body.type)',
+      '{"body":{"status":["Paid"]}} (no match at body.status)',
+    ]);
+  });
+});
+
+describe('parseFilterPatterns', () => {
+  it('should parse JSON strings and CloudFormation Pattern entries', () => {
+    expect(parseFilterPatterns([
+      '{"body":{"type":["order"]}}',
+      { Pattern: '{"body":{"type":["refund"]}}' },
+      { body: { type: ['cancel'] } },
+    ])).toEqual([
+      { body: { type: ['order'] } },
+      { body: { type: ['refund'] } },
+      { body: { type: ['cancel'] } },
+    ]);
+  });
+
+  it('should reject patterns the matcher cannot evaluate', () => {
+    expect(() => parseFilterPatterns(['not json'])).toThrow(/^Invalid filter pattern 0: /);
+    expect(() => parseFilterPatterns([{ Pattern: '[1]' }])).toThrow('Invalid filter pattern 0: must be an object');
+    expect(() => parseFilterPatterns([{ body: { type: 'order' } }]))
+      .toThrow('Invalid filter pattern at body.type: values must be arrays or objects');
+    expect(() => parseFilterPatterns([{ body: { total: [{ numeric: ['>'] }] } }]))
+      .toThrow('Invalid filter pattern at body.total: invalid numeric filter [">"]');
+  });
+});
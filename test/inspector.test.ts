@@ -0,0 +1,129 @@
+import { Message } from '@aws-sdk/client-sqs';
+import { QueueInspector } from '../src/sqs/inspector';
+import { QueueManager } from '../src/sqs/queue-manager';
+import { SqsClientWrapper } from '../src/sqs/client';
+import { Logger } from '../src/utils/logger';
+import { PluginConfig } from '../src/config/defaults';
+import { formatMessage, formatTable } from '../src/utils/format';
+
+describe('QueueInspector', () => {
+  let inspector: QueueInspector;
+  let mockSqsClient: jest.Mocked<SqsClientWrapper>;
+  let mockLogger: jest.Mocked<Logger>;
+
+  const queueUrl = (name: string) => `http://localhost:4566/000000000000/${name}`;
+  const buildMessage = (id: string): Message => ({ MessageId: id, ReceiptHandle: `handle-${id}`, Body: id });
+
+  beforeEach(() => {
+    mockSqsClient = {
+      getQueueInfo: jest.fn().mockImplementation(async (queueName: string) => {
+        if (queueName === 'missing') {
+          throw new Error('Queue does not exist');
+        }
+        return {
+          queueName,
+          queueUrl: queueUrl(queueName),
+          attributes: {
+            ApproximateNumberOfMessages: '3',
+            ApproximateNumberOfMessagesNotVisible: '1',
+            ApproximateNumberOfMessagesDelayed: '0',
+          },
+        };
+      }),
+      receiveMessages: jest.fn().mockResolvedValue([]),
+    } as any;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    const config = {
+      deadLetterQueueSuffix: '-dlq',
+      queues: [
+        { queueName: 'orders', handler: 'handlers/order.process', dlq: { enabled: true } },
+        { queueName: 'missing', handler: 'handlers/missing.process' },
+      ],
+    } as PluginConfig;
+    const queueManager = new QueueManager(mockSqsClient, config, mockLogger);
+
+    inspector = new QueueInspector(mockSqsClient, queueManager);
+  });
+
+  describe('listQueues', () => {
+    it('should report counts, DLQ and handlers of configured and CloudFormation queues', async () => {
+      const queues = await inspector.listQueues({
+        AuditQueue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'audit' } },
+      });
+
+      expect(queues).toEqual([
+        {
+          queueName: 'orders',
+          exists: true,
+          visible: 3,
+          inFlight: 1,
+          delayed: 0,
+          dlqName: 'orders-dlq',
+          dlqDepth: 3,
+          handlers: ['handlers/order.process'],
+        },
+        { queueName: 'missing', exists: false, dlqName: undefined, handlers: ['handlers/missing.process'] },
+        expect.objectContaining({ queueName: 'audit', exists: true, handlers: [] }),
+      ]);
+    });
+  });
+
+  describe('peek', () => {
+    it('should receive without deleting and use a zero visibility timeout by default', async () => {
+      mockSqsClient.receiveMessages
+        .mockResolvedValueOnce([buildMessage('a'), buildMessage('b')])
+        .mockResolvedValueOnce([buildMessage('a')]);
+
+      const messages = await inspector.peek('orders', { count: 5 });
+
+      expect(messages.map(message => message.MessageId)).toEqual(['a', 'b']);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledWith(queueUrl('orders'), 5, 0, 0);
+    });
+
+    it('should stop at the requested count', async () => {
+      mockSqsClient.receiveMessages.mockResolvedValueOnce([buildMessage('a'), buildMessage('b')]);
+
+      const messages = await inspector.peek('orders', { count: 2, visibilityTimeout: 5 });
+
+      expect(messages).toHaveLength(2);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledWith(queueUrl('orders'), 2, 5, 0);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should align table columns', () => {
+      expect(formatTable([['Queue', 'Visible'], ['orders-dlq', '3']])).toEqual([
+        'Queue       Visible',
+        'orders-dlq  3',
+      ]);
+    });
+
+    it('should pretty-print JSON bodies and list attributes', () => {
+      const lines = formatMessage({
+        MessageId: 'a',
+        Body: '{"orderId":42}',
+        Attributes: { ApproximateReceiveCount: '2' },
+        MessageAttributes: { tenant: { DataType: 'String', StringValue: 'acme' } },
+      });
+
+      expect(lines).toEqual([
+        'Message a',
+        '  Receive count: 2',
+        '  Attributes:',
+        '    tenant (String): acme',
+        '  Body:',
+        '    {',
+        '      "orderId": 42',
+        '    }',
+      ]);
+    });
+  });
+});
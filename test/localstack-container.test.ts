@@ -0,0 +1,129 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { LocalStackContainer } from '../src/utils/localstack-container';
+import { defaultConfig, LocalStackConfig } from '../src/config/defaults';
+
+describe('LocalStackContainer', () => {
+  let mockLogger: any;
+  let mockContainer: any;
+  let mockDocker: any;
+  let healthServer: Server;
+  let sqsStatus: string;
+  let config: LocalStackConfig;
+
+  beforeEach(async () => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    mockContainer = {
+      start: jest.fn().mockResolvedValue(undefined),
+      stop: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    mockDocker = {
+      listContainers: jest.fn().mockResolvedValue([]),
+      getImage: jest.fn().mockReturnValue({ inspect: jest.fn().mockResolvedValue({}) }),
+      getContainer: jest.fn().mockReturnValue(mockContainer),
+      createContainer: jest.fn().mockResolvedValue(mockContainer),
+      pull: jest.fn().mockResolvedValue('stream'),
+      modem: { followProgress: jest.fn((_stream, onFinished) => onFinished(null)) },
+    };
+
+    sqsStatus = 'running';
+    healthServer = createServer((req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ services: { sqs: sqsStatus } }));
+    });
+    await new Promise<void>(resolve => healthServer.listen(0, resolve));
+
+    config = {
+      ...defaultConfig.localstack,
+      port: (healthServer.address() as AddressInfo).port,
+      startTimeout: 1000,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => healthServer.close(resolve));
+  });
+
+  it('creates and starts a container when none is running', async () => {
+    const container = new LocalStackContainer({ ...config, volume: './.localstack' }, mockLogger, mockDocker);
+
+    const endpoint = await container.start();
+
+    expect(endpoint).toBe(`http://localhost:${config.port}`);
+    expect(mockDocker.pull).not.toHaveBeenCalled();
+    expect(mockDocker.createContainer).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'serverless-offline-sqs-localstack',
+      Image: 'localstack/localstack:latest',
+      Env: ['SERVICES=sqs', 'PERSISTENCE=1'],
+      HostConfig: {
+        PortBindings: { '4566/tcp': [{ HostPort: config.port.toString() }] },
+        Binds: ['./.localstack:/var/lib/localstack'],
+      },
+    }));
+    expect(mockContainer.start).toHaveBeenCalled();
+  });
+
+  it('pulls the image when it is not available locally', async () => {
+    mockDocker.getImage.mockReturnValue({ inspect: jest.fn().mockRejectedValue(new Error('no such image')) });
+    const container = new LocalStackContainer({ ...config, tag: '3.8' }, mockLogger, mockDocker);
+
+    await container.start();
+
+    expect(mockDocker.pull).toHaveBeenCalledWith('localstack/localstack:3.8');
+    expect(mockDocker.modem.followProgress).toHaveBeenCalled();
+  });
+
+  it('reuses a running LocalStack container and leaves it running on stop', async () => {
+    mockDocker.listContainers.mockResolvedValue([{
+      Id: 'abc',
+      Names: ['/localstack-main'],
+      Image: 'localstack/localstack:latest',
+      Ports: [{ PrivatePort: 4566, PublicPort: 4567, Type: 'tcp' }],
+    }]);
+    const container = new LocalStackContainer(config, mockLogger, mockDocker);
+
+    const endpoint = await container.start();
+    await container.stop();
+
+    expect(endpoint).toBe('http://localhost:4567');
+    expect(mockDocker.createContainer).not.toHaveBeenCalled();
+    expect(mockContainer.stop).not.toHaveBeenCalled();
+    expect(mockContainer.remove).not.toHaveBeenCalled();
+  });
+
+  it('recognizes images from a registry with a port', async () => {
+    mockDocker.listContainers.mockResolvedValue([{
+      Id: 'abc',
+      Names: ['/localstack-main'],
+      Image: 'registry:5000/localstack/localstack:3.8',
+      Ports: [{ PrivatePort: 4566, PublicPort: 4567, Type: 'tcp' }],
+    }]);
+    const container = new LocalStackContainer({ ...config, image: 'registry:5000/localstack/localstack' }, mockLogger, mockDocker);
+
+    expect(await container.start()).toBe('http://localhost:4567');
+    expect(mockDocker.createContainer).not.toHaveBeenCalled();
+  });
+
+  it('stops and removes the container it started', async () => {
+    const container = new LocalStackContainer(config, mockLogger, mockDocker);
+
+    await container.start();
+    await container.stop();
+
+    expect(mockContainer.stop).toHaveBeenCalled();
+    expect(mockContainer.remove).toHaveBeenCalled();
+  });
+
+  it('fails when LocalStack does not become ready in time', async () => {
+    sqsStatus = 'error';
+    const container = new LocalStackContainer(config, mockLogger, mockDocker);
+
+    await expect(container.start()).rejects.toThrow('did not become ready within 1000ms');
+  });
+});
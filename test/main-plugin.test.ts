@@ -1,4 +1,13 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import ServerlessOfflineLocalstackSqsPlugin from '../src/index';
+import { SqsClientWrapper } from '../src/sqs/client';
+import { LambdaInvoker } from '../src/lambda/invoker';
+import { DockerDetector } from '../src/utils/docker';
+import { ControlApiClient } from '../src/server/control-api-client';
+import { MemorySqsBackend } from '../src/sqs/memory-backend';
+import { LocalStackContainer } from '../src/utils/localstack-container';
 
 // Mock all dependencies
 jest.mock('../src/sqs/client');
@@ -6,6 +15,8 @@ jest.mock('../src/sqs/queue-manager');
 jest.mock('../src/sqs/poller');
 jest.mock('../src/lambda/invoker');
 jest.mock('../src/utils/docker');
+jest.mock('../src/utils/localstack-container');
+jest.mock('../src/sqs/readiness');
 
 // Mock logger specifically
 const mockLogger = {
@@ -100,6 +111,13 @@ describe('ServerlessOfflineLocalstackSqsPlugin', () => {
       expect(plugin.commands).toBeDefined();
       // Commands may be defined or undefined depending on configuration
     });
+
+    it('should define poller control commands', () => {
+      const subcommands = plugin.commands['sqs-offline'].commands;
+
+      expect(Object.keys(subcommands)).toEqual(expect.arrayContaining(['pause', 'resume', 'add', 'remove']));
+      expect(plugin.hooks['sqs-offline:pause:pause']).toBeDefined();
+    });
   });
 
   describe('plugin configuration', () => {
@@ -365,4 +383,312 @@ describe('ServerlessOfflineLocalstackSqsPlugin', () => {
       expect(pluginMalformed).toBeInstanceOf(ServerlessOfflineLocalstackSqsPlugin);
     });
   });
-});
\ No newline at end of file
+
+  describe('SQS event options', () => {
+    const withSqsEvent = (sqs: any) => ({
+      ...serverlessInstance,
+      service: {
+        ...serverlessInstance.service,
+        functions: {
+          testFunction: {
+            handler: 'handler.test',
+            events: [{ sqs }],
+          },
+        },
+      },
+    });
+
+    it('should map documented sqs event options into the queue config', () => {
+      const pluginWithOptions = new ServerlessOfflineLocalstackSqsPlugin(withSqsEvent({
+        arn: 'arn:aws:sqs:us-east-1:123456789012:options-queue',
+        batchSize: 50,
+        enabled: false,
+        maximumBatchingWindow: 10,
+        maximumConcurrency: 5,
+        functionResponseType: 'ReportBatchItemFailures',
+        filterPatterns: [{ body: { type: ['order'] } }],
+      }), options);
+
+      expect((pluginWithOptions as any).config.queues[0]).toMatchObject({
+        queueName: 'options-queue',
+        handler: 'handler.test',
+        batchSize: 50,
+        enabled: false,
+        maximumBatchingWindow: 10,
+        maximumConcurrency: 5,
+        functionResponseType: 'ReportBatchItemFailures',
+        filterPatterns: [{ body: { type: ['order'] } }],
+      });
+    });
+
+    it('should resolve Fn::GetAtt queue ARNs from resources', () => {
+      const pluginWithGetAtt = new ServerlessOfflineLocalstackSqsPlugin(withSqsEvent({
+        arn: { 'Fn::GetAtt': ['TestQueue', 'Arn'] },
+      }), options);
+
+      expect((pluginWithGetAtt as any).config.queues[0].queueName).toBe('test-queue');
+    });
+
+    it('should reject out-of-range sqs event options', () => {
+      expect(() => new ServerlessOfflineLocalstackSqsPlugin(withSqsEvent({
+        queueName: 'test-queue',
+        maximumConcurrency: 1,
+      }), options)).toThrow(/maximumConcurrency/);
+
+      expect(() => new ServerlessOfflineLocalstackSqsPlugin(withSqsEvent({
+        queueName: 'test-queue',
+        maximumBatchingWindow: 301,
+      }), options)).toThrow(/maximumBatchingWindow/);
+
+      expect(() => new ServerlessOfflineLocalstackSqsPlugin(withSqsEvent({
+        queueName: 'test-queue.fifo',
+        maximumBatchingWindow: 5,
+      }), options)).toThrow(/maximumBatchingWindow/);
+    });
+  });
+
+  describe('send command', () => {
+    const queueUrl = 'http://localhost:4566/000000000000/test-queue';
+
+    beforeEach(() => {
+      jest.mocked(SqsClientWrapper.prototype.getQueueInfo).mockResolvedValue({ queueUrl, queueName: 'test-queue' });
+      jest.mocked(SqsClientWrapper.prototype.sendMessage).mockResolvedValue('message-id');
+      jest.mocked(SqsClientWrapper.prototype.sendMessageBatch).mockImplementation(async (_url, messages) => messages.length);
+    });
+
+    const runSend = (sendOptions: Record<string, any>) => {
+      const sendPlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, { ...options, ...sendOptions });
+      return sendPlugin.hooks['sqs-offline:send:send']();
+    };
+
+    it('should send a body to the queue of a function', async () => {
+      await runSend({
+        function: 'testFunction',
+        body: '{"orderId":42}',
+        attributes: '{"tenant":"acme","priority":5}',
+        delay: '10',
+      });
+
+      expect(SqsClientWrapper.prototype.getQueueInfo).toHaveBeenCalledWith('test-queue');
+      expect(SqsClientWrapper.prototype.sendMessage).toHaveBeenCalledWith(
+        queueUrl,
+        '{"orderId":42}',
+        {
+          tenant: { DataType: 'String', StringValue: 'acme' },
+          priority: { DataType: 'Number', StringValue: '5' },
+        },
+        { delaySeconds: 10, messageGroupId: undefined, messageDeduplicationId: undefined }
+      );
+    });
+
+    it('should send every message of an NDJSON file in batches', async () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'sqs-offline-')), 'messages.ndjson');
+      writeFileSync(file, '{"orderId":1}\n{"body":"plain","messageGroupId":"g2"}\n');
+
+      await runSend({ queue: 'test-queue', file, batch: true, 'group-id': 'g1' });
+
+      expect(SqsClientWrapper.prototype.sendMessageBatch).toHaveBeenCalledWith(queueUrl, [
+        expect.objectContaining({ body: '{"orderId":1}', messageGroupId: 'g1' }),
+        expect.objectContaining({ body: 'plain', messageGroupId: 'g2' }),
+      ]);
+    });
+
+    it('should require a queue or function', async () => {
+      await expect(runSend({ body: 'hello' })).rejects.toThrow('Specify a queue with --queue or a function with --function');
+    });
+  });
+
+  describe('poller commands', () => {
+    const runCommand = (command: string, commandOptions: Record<string, any>) => {
+      const commandPlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, { ...options, ...commandOptions });
+      return commandPlugin.hooks[`sqs-offline:${command}:${command}`]();
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should send the command to the running session through the control API', async () => {
+      serverlessInstance.service.custom['serverless-offline-localstack-sqs'].controlApi = { enabled: true };
+      const pause = jest.spyOn(ControlApiClient.prototype, 'pausePollers').mockResolvedValue(['test-queue-handler.test']);
+      const add = jest.spyOn(ControlApiClient.prototype, 'addPoller').mockResolvedValue(undefined);
+
+      await runCommand('pause', { queue: 'test-queue' });
+      await runCommand('add', { queue: 'extra-queue', handler: 'handlers/extra.process' });
+
+      expect(pause).toHaveBeenCalledWith('test-queue');
+      expect(add).toHaveBeenCalledWith('extra-queue', 'handlers/extra.process');
+      expect(mockLogger.info).toHaveBeenCalledWith('Paused 1 poller(s) for: test-queue');
+    });
+
+    it('should require the control API', async () => {
+      await expect(runCommand('resume', { queue: 'test-queue' })).rejects.toThrow(
+        'Pollers are controlled through the control API of the running offline session'
+      );
+    });
+  });
+
+  describe('in-memory backend', () => {
+    const createPlugin = (pluginConfig: Record<string, any>, commandOptions: Record<string, any> = {}) => {
+      serverlessInstance.service.custom['serverless-offline-localstack-sqs'] = { backend: 'memory', ...pluginConfig };
+      return new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, { ...options, ...commandOptions });
+    };
+
+    afterEach(() => {
+      delete process.env.AWS_ENDPOINT_URL_SQS;
+    });
+
+    it('should own the queues and start the SQS server for sqs-offline start', async () => {
+      const sessionPlugin = createPlugin({ sqsServer: { enabled: true, port: 0 } });
+      jest.mocked(SqsClientWrapper).mockClear();
+
+      await sessionPlugin.hooks['sqs-offline:start:init']();
+
+      expect(jest.mocked(SqsClientWrapper).mock.calls[0][3]).toBeInstanceOf(MemorySqsBackend);
+      expect((sessionPlugin as any).sqsServer.getUrl()).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+
+      await sessionPlugin.hooks['sqs-offline:stop:cleanup']();
+    });
+
+    it('should start a new SQS server on restart', async () => {
+      const sessionPlugin = createPlugin({ sqsServer: { enabled: true, port: 0 } });
+      await sessionPlugin.hooks['sqs-offline:start:init']();
+      const firstServer = (sessionPlugin as any).sqsServer;
+
+      try {
+        await sessionPlugin.restart();
+
+        // A stopped server reports the configured port, 0, instead of the bound one
+        const secondServer = (sessionPlugin as any).sqsServer;
+        expect(secondServer).not.toBe(firstServer);
+        expect(firstServer.getUrl()).toBe('http://127.0.0.1:0');
+        expect(secondServer.getUrl()).toMatch(/^http:\/\/127\.0\.0\.1:[1-9]\d*$/);
+        expect(process.env.AWS_ENDPOINT_URL_SQS).toBe(secondServer.getUrl());
+      } finally {
+        await sessionPlugin.hooks['sqs-offline:stop:cleanup']();
+      }
+    });
+
+    it('should only remove the AWS_ENDPOINT_URL_SQS it set itself', async () => {
+      const sessionPlugin = createPlugin({ sqsServer: { enabled: true, port: 0 } });
+      await sessionPlugin.hooks['sqs-offline:start:init']();
+      expect(process.env.AWS_ENDPOINT_URL_SQS).toBe((sessionPlugin as any).sqsServer.getUrl());
+      await sessionPlugin.hooks['sqs-offline:stop:cleanup']();
+      expect(process.env.AWS_ENDPOINT_URL_SQS).toBeUndefined();
+
+      process.env.AWS_ENDPOINT_URL_SQS = 'http://elsewhere:9324';
+      const otherPlugin = createPlugin({ sqsServer: { enabled: true, port: 0 } });
+      await otherPlugin.hooks['sqs-offline:start:init']();
+      await otherPlugin.hooks['sqs-offline:stop:cleanup']();
+      expect(process.env.AWS_ENDPOINT_URL_SQS).toBe('http://elsewhere:9324');
+    });
+
+    it('should reject one-off commands that cannot reach the session\'s queues', async () => {
+      jest.mocked(SqsClientWrapper.prototype.checkConnection).mockResolvedValue(false);
+
+      await expect(createPlugin({}).hooks['sqs-offline:list:list']())
+        .rejects.toThrow('The in-memory queues only exist inside the running offline session');
+      await expect(createPlugin({ sqsServer: { enabled: true } }, { queue: 'test-queue' }).hooks['sqs-offline:peek:peek']())
+        .rejects.toThrow('No SQS server is listening at http://127.0.0.1:9324');
+    });
+  });
+
+  describe('localstack.autoStart', () => {
+    beforeEach(() => {
+      jest.mocked(LocalStackContainer).mockClear();
+      jest.mocked(LocalStackContainer.prototype.start).mockReset().mockResolvedValue('http://localhost:4566');
+      jest.mocked(LocalStackContainer.prototype.stop).mockReset().mockResolvedValue(undefined);
+      serverlessInstance.service.custom['serverless-offline-localstack-sqs'] = { localstack: { autoStart: true } };
+    });
+
+    it('should start the container for sqs-offline start', async () => {
+      const sessionPlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, options);
+
+      await sessionPlugin.hooks['sqs-offline:start:init']();
+
+      expect(LocalStackContainer.prototype.start).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop the container when a later initialization step fails', async () => {
+      jest.mocked(LambdaInvoker).mockImplementationOnce(() => {
+        throw new Error('boom');
+      });
+      const sessionPlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, options);
+
+      await expect(sessionPlugin.hooks['sqs-offline:start:init']()).rejects.toThrow('boom');
+
+      expect(LocalStackContainer.prototype.start).toHaveBeenCalledTimes(1);
+      expect(LocalStackContainer.prototype.stop).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop and start the container again on restart', async () => {
+      const sessionPlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, options);
+      await sessionPlugin.hooks['before:offline:start']();
+
+      await sessionPlugin.restart();
+
+      expect(LocalStackContainer.prototype.stop).toHaveBeenCalledTimes(1);
+      expect(LocalStackContainer.prototype.start).toHaveBeenCalledTimes(2);
+      expect(LocalStackContainer).toHaveBeenCalledTimes(2);
+
+      await sessionPlugin.hooks['after:offline:start']();
+    });
+  });
+
+  describe('invoke command', () => {
+    it('should invoke the handler without an endpoint', async () => {
+      jest.mocked(LambdaInvoker.prototype.invokeHandler).mockResolvedValue({ success: true, result: { ok: true } });
+      jest.mocked(DockerDetector).mockClear();
+
+      const invokePlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, {
+        ...options,
+        function: 'testFunction',
+        body: '{"orderId":42}',
+      });
+      await invokePlugin.hooks['sqs-offline:invoke:invoke']();
+
+      expect(LambdaInvoker.prototype.invokeHandler).toHaveBeenCalledWith(
+        'handler.test',
+        expect.objectContaining({
+          Records: [expect.objectContaining({
+            body: '{"orderId":42}',
+            eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:test-queue',
+          })],
+        }),
+        expect.objectContaining({ handler: 'handler.test' })
+      );
+      expect(DockerDetector).not.toHaveBeenCalled();
+    });
+
+    it('should print the handler logs', async () => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.mocked(LambdaInvoker.prototype.invokeHandler).mockImplementation(async () => {
+        console.log('handled order', 42);
+        return { success: true };
+      });
+
+      try {
+        const invokePlugin = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, {
+          ...options,
+          function: 'testFunction',
+          body: '{"orderId":42}',
+        });
+        await invokePlugin.hooks['sqs-offline:invoke:invoke']();
+
+        expect(mockLogger.info).toHaveBeenCalledWith('Logs:');
+        expect(mockLogger.info).toHaveBeenCalledWith('  handled order 42');
+      } finally {
+        jest.mocked(console.log).mockRestore();
+      }
+    });
+
+    it('should fail for unknown functions and failed handlers', async () => {
+      const unknown = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, { ...options, function: 'nope', body: 'x' });
+      await expect(unknown.hooks['sqs-offline:invoke:invoke']()).rejects.toThrow('Function not found: nope');
+
+      jest.mocked(LambdaInvoker.prototype.invokeHandler).mockResolvedValue({ success: false, error: new Error('boom') });
+      const failing = new ServerlessOfflineLocalstackSqsPlugin(serverlessInstance, { ...options, function: 'testFunction', body: 'x' });
+      await expect(failing.hooks['sqs-offline:invoke:invoke']()).rejects.toThrow('Handler failed: boom');
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { MemorySqsBackend } from '../src/sqs/memory-backend';
+import { SqsClientWrapper } from '../src/sqs/client';
+import { Logger } from '../src/utils/logger';
+import { defaultConfig } from '../src/config/defaults';
+
+describe('MemorySqsBackend', () => {
+  let backend: MemorySqsBackend;
+  let queueUrl: string;
+
+  const receive = async (url = queueUrl, options: Record<string, any> = {}) => {
+    const response = await backend.receiveMessage({
+      QueueUrl: url,
+      MaxNumberOfMessages: 10,
+      WaitTimeSeconds: 0,
+      AttributeNames: ['All'],
+      MessageAttributeNames: ['All'],
+      ...options,
+    });
+    return response.Messages || [];
+  };
+
+  const send = (body: string, options: Record<string, any> = {}, url = queueUrl) =>
+    backend.sendMessage({ QueueUrl: url, MessageBody: body, ...options });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    backend = new MemorySqsBackend({ region: 'us-east-1', baseUrl: 'http://localhost:4566' });
+    queueUrl = (await backend.createQueue({ QueueName: 'orders', Attributes: { VisibilityTimeout: '30' } })).QueueUrl!;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('queues', () => {
+    it('should create queues idempotently and reject conflicting attributes', async () => {
+      expect(queueUrl).toBe('http://localhost:4566/000000000000/orders');
+      await expect(backend.createQueue({ QueueName: 'orders' })).resolves.toEqual({ QueueUrl: queueUrl });
+      await expect(backend.createQueue({ QueueName: 'orders', Attributes: { VisibilityTimeout: '5' } }))
+        .rejects.toMatchObject({ name: 'QueueAlreadyExists' });
+    });
+
+    it('should report counts and attributes', async () => {
+      await send('a');
+      await send('b', { DelaySeconds: 10 });
+      await receive(queueUrl, { MaxNumberOfMessages: 1 });
+      await send('c');
+
+      const { Attributes } = await backend.getQueueAttributes({ QueueUrl: queueUrl, AttributeNames: ['All'] });
+
+      expect(Attributes).toMatchObject({
+        QueueArn: 'arn:aws:sqs:us-east-1:000000000000:orders',
+        VisibilityTimeout: '30',
+        ApproximateNumberOfMessages: '1',
+        ApproximateNumberOfMessagesNotVisible: '1',
+        ApproximateNumberOfMessagesDelayed: '1',
+      });
+    });
+
+    it('should fail for unknown queues and invalid attributes', async () => {
+      await expect(backend.getQueueUrl({ QueueName: 'missing' })).rejects.toMatchObject({ name: 'QueueDoesNotExist' });
+      await expect(send('a', {}, 'http://localhost:4566/000000000000/missing'))
+        .rejects.toMatchObject({ name: 'QueueDoesNotExist' });
+      await expect(backend.setQueueAttributes({ QueueUrl: queueUrl, Attributes: { DelaySeconds: '901' } }))
+        .rejects.toMatchObject({ name: 'InvalidParameterValue' });
+    });
+
+    it('should list, purge and delete queues', async () => {
+      await backend.createQueue({ QueueName: 'audit' });
+      await send('a');
+
+      expect((await backend.listQueues({})).QueueUrls).toHaveLength(2);
+      expect((await backend.listQueues({ QueueNamePrefix: 'ord' })).QueueUrls).toEqual([queueUrl]);
+
+      await backend.purgeQueue({ QueueUrl: queueUrl });
+      expect(await receive()).toEqual([]);
+
+      await backend.deleteQueue({ QueueUrl: queueUrl });
+      expect((await backend.listQueues({})).QueueUrls).toEqual(['http://localhost:4566/000000000000/audit']);
+    });
+  });
+
+  describe('messages', () => {
+    it('should hide received messages until the visibility timeout expires', async () => {
+      await send('a');
+
+      const [first] = await receive();
+      expect(first.Attributes?.ApproximateReceiveCount).toBe('1');
+      expect(await receive()).toEqual([]);
+
+      jest.advanceTimersByTime(30000);
+      const [second] = await receive();
+
+      expect(second.MessageId).toBe(first.MessageId);
+      expect(second.ReceiptHandle).not.toBe(first.ReceiptHandle);
+      expect(second.Attributes?.ApproximateReceiveCount).toBe('2');
+    });
+
+    it('should only delete with the latest receipt handle', async () => {
+      await send('a');
+      const [first] = await receive(queueUrl, { VisibilityTimeout: 0 });
+      const [second] = await receive();
+
+      await backend.deleteMessage({ QueueUrl: queueUrl, ReceiptHandle: first.ReceiptHandle });
+      expect((await backend.getQueueAttributes({
+        QueueUrl: queueUrl,
+        AttributeNames: ['ApproximateNumberOfMessagesNotVisible'],
+      })).Attributes).toEqual({ ApproximateNumberOfMessagesNotVisible: '1' });
+
+      await backend.deleteMessage({ QueueUrl: queueUrl, ReceiptHandle: second.ReceiptHandle });
+      jest.advanceTimersByTime(30000);
+      expect(await receive()).toEqual([]);
+    });
+
+    it('should change visibility of in-flight messages only', async () => {
+      await send('a');
+      const [message] = await receive();
+
+      await backend.changeMessageVisibility({ QueueUrl: queueUrl, ReceiptHandle: message.ReceiptHandle, VisibilityTimeout: 0 });
+      expect(await receive(queueUrl, { VisibilityTimeout: 0 })).toHaveLength(1);
+
+      await expect(backend.changeMessageVisibility({
+        QueueUrl: queueUrl,
+        ReceiptHandle: message.ReceiptHandle,
+        VisibilityTimeout: 10,
+      })).rejects.toMatchObject({ name: 'MessageNotInflight' });
+    });
+
+    it('should honor message and queue delays', async () => {
+      await backend.setQueueAttributes({ QueueUrl: queueUrl, Attributes: { DelaySeconds: '5' } });
+      await send('queue-delay');
+      await send('message-delay', { DelaySeconds: 20 });
+
+      expect(await receive()).toEqual([]);
+      jest.advanceTimersByTime(5000);
+      expect((await receive()).map(message => message.Body)).toEqual(['queue-delay']);
+      jest.advanceTimersByTime(15000);
+      expect((await receive()).map(message => message.Body)).toEqual(['message-delay']);
+    });
+
+    it('should drop messages older than the retention period', async () => {
+      await backend.setQueueAttributes({ QueueUrl: queueUrl, Attributes: { MessageRetentionPeriod: '60' } });
+      await send('a');
+
+      jest.advanceTimersByTime(60000);
+
+      expect(await receive()).toEqual([]);
+    });
+
+    it('should return message attributes with their checksum', async () => {
+      const response = await send('a', {
+        MessageAttributes: { source: { DataType: 'String', StringValue: 'test' } },
+      });
+      const [message] = await receive();
+
+      expect(response.MD5OfMessageBody).toBe('0cc175b9c0f1b6a831c399e269772661');
+      expect(message.MessageAttributes).toEqual({ source: { DataType: 'String', StringValue: 'test' } });
+      expect(message.MD5OfMessageAttributes).toBe(response.MD5OfMessageAttributes);
+      expect(message.MD5OfMessageAttributes).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('should report failed batch entries without failing the batch', async () => {
+      const response = await backend.sendMessageBatch({
+        QueueUrl: queueUrl,
+        Entries: [
+          { Id: '1', MessageBody: 'a' },
+          { Id: '2', MessageBody: 'b', DelaySeconds: 1000 },
+        ],
+      });
+
+      expect(response.Successful?.map(entry => entry.Id)).toEqual(['1']);
+      expect(response.Failed).toEqual([expect.objectContaining({ Id: '2', Code: 'InvalidParameterValue' })]);
+    });
+  });
+
+  describe('redrive', () => {
+    it('should move messages to the DLQ after maxReceiveCount receives', async () => {
+      const dlqUrl = (await backend.createQueue({ QueueName: 'orders-dlq' })).QueueUrl!;
+      await backend.setQueueAttributes({
+        QueueUrl: queueUrl,
+        Attributes: {
+          RedrivePolicy: JSON.stringify({
+            deadLetterTargetArn: 'arn:aws:sqs:us-east-1:000000000000:orders-dlq',
+            maxReceiveCount: 2,
+          }),
+        },
+      });
+      await send('a');
+
+      await receive(queueUrl, { VisibilityTimeout: 0 });
+      await receive(queueUrl, { VisibilityTimeout: 0 });
+
+      expect(await receive()).toEqual([]);
+      expect((await receive(dlqUrl)).map(message => message.Body)).toEqual(['a']);
+    });
+  });
+
+  describe('long polling', () => {
+    it('should wait for a message to arrive', async () => {
+      const pending = receive(queueUrl, { WaitTimeSeconds: 20 });
+      await send('a');
+
+      expect((await pending).map(message => message.Body)).toEqual(['a']);
+    });
+
+    it('should return empty once the wait time passes', async () => {
+      const pending = receive(queueUrl, { WaitTimeSeconds: 2 });
+      await jest.advanceTimersByTimeAsync(2000);
+
+      expect(await pending).toEqual([]);
+    });
+
+    it('should stop waiting when aborted', async () => {
+      const abortController = new AbortController();
+      const pending = backend.receiveMessage({ QueueUrl: queueUrl, WaitTimeSeconds: 20 }, abortController.signal);
+      abortController.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('FIFO queues', () => {
+    let fifoUrl: string;
+
+    beforeEach(async () => {
+      fifoUrl = (await backend.createQueue({
+        QueueName: 'orders.fifo',
+        Attributes: { FifoQueue: 'true', ContentBasedDeduplication: 'true' },
+      })).QueueUrl!;
+    });
+
+    it('should deliver a group in order and block it while a message is in flight', async () => {
+      await send('a1', { MessageGroupId: 'a' }, fifoUrl);
+      await send('a2', { MessageGroupId: 'a' }, fifoUrl);
+      await send('b1', { MessageGroupId: 'b' }, fifoUrl);
+
+      const first = await receive(fifoUrl, { MaxNumberOfMessages: 1 });
+      const second = await receive(fifoUrl);
+
+      expect(first.map(message => message.Body)).toEqual(['a1']);
+      expect(second.map(message => message.Body)).toEqual(['b1']);
+
+      await backend.deleteMessage({ QueueUrl: fifoUrl, ReceiptHandle: first[0].ReceiptHandle });
+      expect((await receive(fifoUrl)).map(message => message.Body)).toEqual(['a2']);
+    });
+
+    it('should drop duplicates within the deduplication interval', async () => {
+      const original = await send('same', { MessageGroupId: 'a' }, fifoUrl);
+      const duplicate = await send('same', { MessageGroupId: 'a' }, fifoUrl);
+
+      expect(duplicate.MessageId).toBe(original.MessageId);
+      expect(await receive(fifoUrl)).toHaveLength(1);
+
+      jest.advanceTimersByTime(5 * 60 * 1000);
+      await send('same', { MessageGroupId: 'a' }, fifoUrl);
+      jest.advanceTimersByTime(30000);
+      expect(await receive(fifoUrl)).toHaveLength(2);
+    });
+
+    it('should require a message group', async () => {
+      await expect(send('a', {}, fifoUrl)).rejects.toMatchObject({ name: 'MissingParameter' });
+    });
+  });
+
+  it('should back SqsClientWrapper', async () => {
+    const logger: jest.Mocked<Logger> = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+    const client = new SqsClientWrapper(defaultConfig, logger, undefined, backend);
+
+    const { queueUrl: url } = await client.createQueue('payments.fifo');
+    await client.sendMessage(url, 'hello', undefined, { messageGroupId: 'g', messageDeduplicationId: '1' });
+    const [message] = await client.receiveMessages(url, 1, 30, 0);
+    await client.deleteMessage(url, message.ReceiptHandle!);
+
+    expect(message.Body).toBe('hello');
+    expect((await client.getQueueInfo('payments.fifo')).attributes?.ApproximateNumberOfMessagesNotVisible).toBe('0');
+    expect(client.getClient()).toBeUndefined();
+  });
+});
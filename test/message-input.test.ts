@@ -0,0 +1,56 @@
+import { parseMessageAttributes, parseMessageFile } from '../src/utils/message-input';
+
+describe('message input', () => {
+  describe('parseMessageAttributes', () => {
+    it('should infer data types from values', () => {
+      expect(parseMessageAttributes({ tenant: 'acme', priority: 5, urgent: true })).toEqual({
+        tenant: { DataType: 'String', StringValue: 'acme' },
+        priority: { DataType: 'Number', StringValue: '5' },
+        urgent: { DataType: 'String', StringValue: 'true' },
+      });
+    });
+
+    it('should pass through explicit attribute values', () => {
+      expect(parseMessageAttributes({ amount: { DataType: 'Number.float', StringValue: '1.5' } })).toEqual({
+        amount: { DataType: 'Number.float', StringValue: '1.5', BinaryValue: undefined },
+      });
+    });
+
+    it('should reject unsupported values', () => {
+      expect(() => parseMessageAttributes({ tags: ['a'] })).toThrow('Invalid value for message attribute tags');
+    });
+  });
+
+  describe('parseMessageFile', () => {
+    it('should read a JSON array of bodies and message objects', () => {
+      const messages = parseMessageFile(JSON.stringify([
+        { orderId: 1 },
+        'plain text',
+        { body: { orderId: 2 }, attributes: { tenant: 'acme' }, delaySeconds: 5, messageGroupId: 'g1' },
+      ]));
+
+      expect(messages).toEqual([
+        { body: '{"orderId":1}' },
+        { body: 'plain text' },
+        {
+          body: '{"orderId":2}',
+          attributes: { tenant: { DataType: 'String', StringValue: 'acme' } },
+          delaySeconds: 5,
+          messageGroupId: 'g1',
+          messageDeduplicationId: undefined,
+        },
+      ]);
+    });
+
+    it('should read NDJSON and skip blank lines', () => {
+      expect(parseMessageFile('{"orderId":1}\n\n{"orderId":2}\n')).toEqual([
+        { body: '{"orderId":1}' },
+        { body: '{"orderId":2}' },
+      ]);
+    });
+
+    it('should name the line of invalid NDJSON', () => {
+      expect(() => parseMessageFile('{"orderId":1}\nnot json')).toThrow(/^Invalid message on line 2/);
+    });
+  });
+});
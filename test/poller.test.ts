@@ -0,0 +1,857 @@
+import { Message } from '@aws-sdk/client-sqs';
+import { MessagePoller } from '../src/sqs/poller';
+import { SqsClientWrapper, QueueInfo } from '../src/sqs/client';
+import { LambdaInvoker } from '../src/lambda/invoker';
+import { Logger } from '../src/utils/logger';
+import { PluginConfig, QueueConfig } from '../src/config/defaults';
+
+describe('MessagePoller', () => {
+  let poller: MessagePoller;
+  let mockSqsClient: jest.Mocked<SqsClientWrapper>;
+  let mockInvoker: jest.Mocked<LambdaInvoker>;
+  let mockLogger: jest.Mocked<Logger>;
+  let config: PluginConfig;
+
+  const queueInfo: QueueInfo = {
+    queueUrl: 'http://localhost:4566/000000000000/test-queue',
+    queueName: 'test-queue',
+  };
+
+  const buildMessage = (id: string): Message => ({
+    MessageId: id,
+    ReceiptHandle: `handle-${id}`,
+    Body: JSON.stringify({ id }),
+    Attributes: { ApproximateReceiveCount: '1' },
+  });
+
+  beforeEach(() => {
+    mockSqsClient = {
+      createQueue: jest.fn(),
+      getQueueInfo: jest.fn().mockResolvedValue(queueInfo),
+      setQueueAttributes: jest.fn(),
+      receiveMessages: jest.fn().mockResolvedValue([]),
+      deleteMessage: jest.fn().mockResolvedValue(undefined),
+      deleteMessages: jest.fn().mockResolvedValue(undefined),
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+      changeMessageVisibility: jest.fn().mockResolvedValue(undefined),
+      changeMessageVisibilityBatch: jest.fn().mockResolvedValue(undefined),
+      getClient: jest.fn(),
+    } as any;
+
+    mockInvoker = {
+      invokeHandler: jest.fn(),
+      clearCache: jest.fn(),
+      getFunctionTimeout: jest.fn().mockReturnValue(30000),
+    } as any;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    config = {
+      enabled: true,
+      backend: 'localstack',
+      region: 'us-east-1',
+      accessKeyId: 'test',
+      secretAccessKey: 'test',
+      autoCreate: true,
+      pollInterval: 1000,
+      maxConcurrentPolls: 3,
+      visibilityTimeout: 30,
+      waitTimeSeconds: 20,
+      maxReceiveCount: 3,
+      deadLetterQueueSuffix: '-dlq',
+      debug: false,
+      skipCacheInvalidation: false,
+      lambdaTimeout: 30000,
+      invocationMode: 'single',
+      shutdownTimeout: 10000,
+      releaseOnShutdown: true,
+      dlqMode: 'native',
+      purgeOnStart: false,
+      teardown: false,
+      controlApi: { enabled: false, port: 4588, host: '127.0.0.1' },
+      sqsServer: { enabled: false, port: 9324, host: '127.0.0.1' },
+      localstack: {
+        autoStart: false,
+        image: 'localstack/localstack',
+        tag: 'latest',
+        port: 4566,
+        services: 'sqs',
+        containerName: 'serverless-offline-sqs-localstack',
+        startTimeout: 60000,
+      },
+      circuitBreakerThreshold: 5,
+      maxErrorBackoff: 30000,
+      healthCheckInterval: 5000,
+      readinessTimeout: 60000,
+      readinessInterval: 1000,
+      queues: [],
+    };
+
+    poller = new MessagePoller(mockSqsClient, mockInvoker, config, mockLogger);
+  });
+
+  describe('ReportBatchItemFailures', () => {
+    const queueConfig: QueueConfig = {
+      queueName: 'test-queue',
+      handler: 'handler.process',
+      functionResponseType: 'ReportBatchItemFailures',
+    };
+
+    const settle = (messages: Message[], result: any, qc: QueueConfig = queueConfig) =>
+      (poller as any).handleInvocationResult(messages, { success: true, result }, qc, queueInfo);
+
+    it('should delete only messages not reported as failed', async () => {
+      const messages = [buildMessage('a'), buildMessage('b'), buildMessage('c')];
+
+      await settle(messages, { batchItemFailures: [{ itemIdentifier: 'b' }] });
+
+      expect(mockSqsClient.deleteMessages).toHaveBeenCalledWith(queueInfo.queueUrl, ['handle-a', 'handle-c']);
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Message b failed processing'));
+    });
+
+    it('should treat an empty or missing response as full success', async () => {
+      await settle([buildMessage('a')], undefined);
+      await settle([buildMessage('b')], { batchItemFailures: [] });
+
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a');
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-b');
+    });
+
+    it('should fail the entire batch on an unknown itemIdentifier', async () => {
+      const messages = [buildMessage('a'), buildMessage('b')];
+
+      await settle(messages, { batchItemFailures: [{ itemIdentifier: 'unknown' }] });
+
+      expect(mockSqsClient.deleteMessage).not.toHaveBeenCalled();
+      expect(mockSqsClient.deleteMessages).not.toHaveBeenCalled();
+    });
+
+    it('should ignore batchItemFailures when the response type is not configured', async () => {
+      const messages = [buildMessage('a'), buildMessage('b')];
+
+      await settle(
+        messages,
+        { batchItemFailures: [{ itemIdentifier: 'a' }] },
+        { queueName: 'test-queue', handler: 'handler.process' }
+      );
+
+      expect(mockSqsClient.deleteMessages).toHaveBeenCalledWith(queueInfo.queueUrl, ['handle-a', 'handle-b']);
+    });
+  });
+
+  it('should delete messages that match no filter pattern without invoking the handler', async () => {
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([
+      { ...buildMessage('a'), Body: JSON.stringify({ type: 'order' }) },
+      { ...buildMessage('b'), Body: JSON.stringify({ type: 'refund' }) },
+    ]);
+    mockInvoker.invokeHandler.mockResolvedValue({ success: true });
+    const queueConfig: QueueConfig = {
+      queueName: 'test-queue',
+      handler: 'handler.process',
+      filterPatterns: [{ body: { type: ['order'] } }],
+    };
+    (poller as any).pollerStates.set('test-queue-handler.process', { isPolling: true, messageCount: 0, errorCount: 0 });
+
+    await (poller as any).pollQueue(queueConfig, queueInfo);
+
+    expect(mockSqsClient.deleteMessages).toHaveBeenCalledWith(queueInfo.queueUrl, ['handle-b']);
+    expect(mockInvoker.invokeHandler).toHaveBeenCalledTimes(1);
+    expect(mockInvoker.invokeHandler.mock.calls[0][1].Records[0].messageId).toBe('a');
+  });
+
+  it('should pass the originating function to the invoker', async () => {
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([buildMessage('a')]);
+    mockInvoker.invokeHandler.mockResolvedValue({ success: true });
+    const queueConfig: QueueConfig = {
+      queueName: 'test-queue',
+      handler: 'handlers/order.process',
+      functionName: 'processOrder',
+    };
+    (poller as any).pollerStates.set('test-queue-handlers/order.process', { isPolling: true, messageCount: 0, errorCount: 0 });
+
+    await (poller as any).pollQueue(queueConfig, queueInfo);
+
+    expect(mockInvoker.invokeHandler).toHaveBeenCalledWith(
+      'handlers/order.process',
+      expect.anything(),
+      { handler: 'handlers/order.process', functionName: 'processOrder' }
+    );
+  });
+
+  it('should delay redelivery according to the retry policy', async () => {
+    mockInvoker.invokeHandler.mockResolvedValue({ success: false, error: new Error('boom') });
+    const message = { ...buildMessage('a'), Attributes: { ApproximateReceiveCount: '2' } };
+
+    await (poller as any).processMessage(
+      message,
+      { queueName: 'test-queue', handler: 'handler.process', retry: { strategy: 'linear', baseDelay: 3 } },
+      queueInfo
+    );
+
+    expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a', 6);
+  });
+
+  it('should keep messages on the queue when the handler fails', async () => {
+    mockInvoker.invokeHandler.mockResolvedValue({ success: false, error: new Error('boom') });
+
+    await (poller as any).processMessage(
+      buildMessage('a'),
+      { queueName: 'test-queue', handler: 'handler.process' },
+      queueInfo
+    );
+
+    expect(mockSqsClient.deleteMessage).not.toHaveBeenCalled();
+    expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('boom'));
+  });
+
+  describe('batch invocation', () => {
+    const pollState = { isPolling: true, messageCount: 0, errorCount: 0 };
+
+    it('should invoke the handler once with every received record', async () => {
+      mockInvoker.invokeHandler.mockResolvedValue({ success: true });
+      const messages = [buildMessage('a'), buildMessage('b'), buildMessage('c')];
+
+      await (poller as any).processMessages(
+        messages,
+        { queueName: 'test-queue', handler: 'handler.process', invocationMode: 'batch' },
+        queueInfo
+      );
+
+      expect(mockInvoker.invokeHandler).toHaveBeenCalledTimes(1);
+      expect(mockInvoker.invokeHandler.mock.calls[0][1].Records).toHaveLength(3);
+      expect(mockSqsClient.deleteMessages).toHaveBeenCalledWith(
+        queueInfo.queueUrl,
+        ['handle-a', 'handle-b', 'handle-c']
+      );
+    });
+
+    it('should keep the whole batch when the handler throws', async () => {
+      mockInvoker.invokeHandler.mockResolvedValue({ success: false, error: new Error('boom') });
+
+      await (poller as any).processMessages(
+        [buildMessage('a'), buildMessage('b')],
+        { queueName: 'test-queue', handler: 'handler.process', invocationMode: 'batch' },
+        queueInfo
+      );
+
+      expect(mockSqsClient.deleteMessage).not.toHaveBeenCalled();
+      expect(mockSqsClient.deleteMessages).not.toHaveBeenCalled();
+    });
+
+    it('should accumulate messages within the batching window', async () => {
+      mockSqsClient.receiveMessages
+        .mockResolvedValueOnce([buildMessage('a')])
+        .mockResolvedValueOnce([buildMessage('b'), buildMessage('c')]);
+
+      const messages = await (poller as any).receiveBatch(
+        { queueName: 'test-queue', handler: 'handler.process', batchSize: 3, maximumBatchingWindow: 5 },
+        queueInfo,
+        pollState,
+        []
+      );
+
+      expect(messages.map((m: Message) => m.MessageId)).toEqual(['a', 'b', 'c']);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(2);
+      const [, maxMessages, , waitTimeSeconds] = mockSqsClient.receiveMessages.mock.calls[1];
+      expect(maxMessages).toBe(2);
+      expect(waitTimeSeconds).toBeLessThanOrEqual(5);
+    });
+
+    it('should keep long-polling in the last second of the batching window', async () => {
+      mockSqsClient.receiveMessages
+        .mockResolvedValueOnce([buildMessage('a')])
+        .mockResolvedValueOnce([buildMessage('b')]);
+
+      await (poller as any).receiveBatch(
+        { queueName: 'test-queue', handler: 'handler.process', batchSize: 2, maximumBatchingWindow: 0.5 },
+        queueInfo,
+        pollState,
+        []
+      );
+
+      const [, , , waitTimeSeconds] = mockSqsClient.receiveMessages.mock.calls[1];
+      expect(waitTimeSeconds).toBe(1);
+    });
+
+    it('should receive once without a batching window', async () => {
+      mockSqsClient.receiveMessages.mockResolvedValueOnce([buildMessage('a')]);
+
+      const messages = await (poller as any).receiveBatch(
+        { queueName: 'test-queue', handler: 'handler.process', batchSize: 10 },
+        queueInfo,
+        pollState,
+        []
+      );
+
+      expect(messages).toHaveLength(1);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('invocation records', () => {
+    it('should report each invocation to listeners', async () => {
+      const listener = jest.fn();
+      poller.onInvocation(listener);
+      mockInvoker.invokeHandler.mockResolvedValue({ success: false, error: new Error('boom') });
+
+      await (poller as any).processMessage(
+        buildMessage('a'),
+        { queueName: 'test-queue', handler: 'handler.process', functionName: 'process' },
+        queueInfo
+      );
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        queueName: 'test-queue',
+        handler: 'handler.process',
+        functionName: 'process',
+        messageIds: ['a'],
+        success: false,
+        error: 'boom',
+      }));
+      expect(listener.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should include the reported batch item failures', async () => {
+      const listener = jest.fn();
+      poller.onInvocation(listener);
+      mockInvoker.invokeHandler.mockResolvedValue({
+        success: true,
+        result: { batchItemFailures: [{ itemIdentifier: 'b' }] },
+      });
+
+      await (poller as any).processMessages(
+        [buildMessage('a'), buildMessage('b')],
+        {
+          queueName: 'test-queue',
+          handler: 'handler.process',
+          invocationMode: 'batch',
+          functionResponseType: 'ReportBatchItemFailures',
+        },
+        queueInfo
+      );
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+        messageIds: ['a', 'b'],
+        success: true,
+        batchItemFailures: ['b'],
+      }));
+    });
+  });
+
+  describe('FIFO queues', () => {
+    const fifoInfo: QueueInfo = {
+      queueUrl: 'http://localhost:4566/000000000000/test-queue.fifo',
+      queueName: 'test-queue.fifo',
+    };
+    const fifoConfig: QueueConfig = { queueName: 'test-queue.fifo', handler: 'handler.process' };
+
+    const buildGroupMessage = (id: string, groupId: string): Message => ({
+      ...buildMessage(id),
+      Attributes: { ApproximateReceiveCount: '1', MessageGroupId: groupId },
+    });
+
+    it('should process each message group in order', async () => {
+      const order: string[] = [];
+      mockInvoker.invokeHandler.mockImplementation(async (_handler, event) => {
+        const id = event.Records[0].messageId;
+        await new Promise(resolve => setTimeout(resolve, id === 'a1' ? 20 : 0));
+        order.push(id);
+        return { success: true };
+      });
+
+      await (poller as any).processMessages(
+        [buildGroupMessage('a1', 'a'), buildGroupMessage('b1', 'b'), buildGroupMessage('a2', 'a')],
+        fifoConfig,
+        fifoInfo
+      );
+
+      // Group b doesn't wait for the slow first message of group a
+      expect(order.indexOf('a1')).toBeLessThan(order.indexOf('a2'));
+      expect(order.indexOf('b1')).toBeLessThan(order.indexOf('a1'));
+    });
+
+    it('should not run more groups at once than the poller concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockInvoker.invokeHandler.mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return { success: true };
+      });
+
+      await (poller as any).processMessages(
+        ['a', 'b', 'c', 'd'].map(groupId => buildGroupMessage(`${groupId}1`, groupId)),
+        { ...fifoConfig, maxConcurrentPolls: 2 },
+        fifoInfo
+      );
+
+      expect(mockInvoker.invokeHandler).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should stop a group after a failed message', async () => {
+      mockInvoker.invokeHandler.mockImplementation(async (_handler, event) => (
+        event.Records[0].messageId === 'a1'
+          ? { success: false, error: new Error('boom') }
+          : { success: true }
+      ));
+
+      await (poller as any).processMessages(
+        [buildGroupMessage('a1', 'a'), buildGroupMessage('a2', 'a'), buildGroupMessage('b1', 'b')],
+        fifoConfig,
+        fifoInfo
+      );
+
+      const invokedIds = mockInvoker.invokeHandler.mock.calls.map(call => call[1].Records[0].messageId);
+      expect(invokedIds).not.toContain('a2');
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(fifoInfo.queueUrl, 'handle-b1');
+    });
+  });
+
+  describe('poll loops', () => {
+    it('should run maxConcurrentPolls receive loops without overlapping receives', async () => {
+      let outstanding = 0;
+      let maxOutstanding = 0;
+      mockSqsClient.receiveMessages.mockImplementation(async () => {
+        outstanding++;
+        maxOutstanding = Math.max(maxOutstanding, outstanding);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        outstanding--;
+        return [];
+      });
+      config.pollInterval = 1;
+
+      poller.startPolling([{ queueName: 'test-queue', handler: 'handler.process', maxConcurrentPolls: 2 }]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await poller.stopPolling();
+
+      const callsAfterStop = mockSqsClient.receiveMessages.mock.calls.length;
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(maxOutstanding).toBe(2);
+      expect(callsAfterStop).toBeGreaterThan(2);
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(callsAfterStop);
+      expect(poller.isPolling()).toBe(false);
+    });
+
+    it('should cap the number of loops at maximumConcurrency', async () => {
+      let outstanding = 0;
+      let maxOutstanding = 0;
+      mockSqsClient.receiveMessages.mockImplementation(async () => {
+        outstanding++;
+        maxOutstanding = Math.max(maxOutstanding, outstanding);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        outstanding--;
+        return [];
+      });
+      config.pollInterval = 1;
+
+      poller.startPolling([
+        { queueName: 'test-queue', handler: 'handler.process', maxConcurrentPolls: 5, maximumConcurrency: 2 },
+      ]);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      await poller.stopPolling();
+
+      expect(maxOutstanding).toBe(2);
+    });
+
+    it('should not poll queues whose event is disabled', async () => {
+      poller.startPolling([{ queueName: 'test-queue', handler: 'handler.process', enabled: false }]);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(mockSqsClient.getQueueInfo).not.toHaveBeenCalled();
+      expect(poller.isPolling()).toBe(false);
+    });
+
+    it('should abort an outstanding long poll on stop', async () => {
+      mockSqsClient.receiveMessages.mockImplementation(
+        (_url, _max, _visibility, _wait, signal?: AbortSignal) => new Promise(resolve => {
+          signal?.addEventListener('abort', () => resolve([]));
+        })
+      );
+
+      poller.startPolling([{ queueName: 'test-queue', handler: 'handler.process', maxConcurrentPolls: 1 }]);
+      await new Promise(resolve => setImmediate(resolve));
+
+      await expect(poller.stopPolling()).resolves.toBeUndefined();
+      expect(poller.getPollerStates().get('test-queue-handler.process')?.isPolling).toBe(false);
+    });
+  });
+
+  describe('visibility heartbeat', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should extend visibility of every received message until it settles', async () => {
+      jest.useFakeTimers();
+      const finishers: Array<(value: any) => void> = [];
+      mockInvoker.invokeHandler.mockImplementation(() => new Promise(resolve => { finishers.push(resolve); }));
+      mockSqsClient.receiveMessages.mockResolvedValueOnce([buildMessage('a'), buildMessage('b')]);
+      (poller as any).pollerStates.set('test-queue-handler.process', { isPolling: true, messageCount: 0, errorCount: 0 });
+
+      const polling = (poller as any).pollQueue(
+        { queueName: 'test-queue', handler: 'handler.process', visibilityTimeout: 10 },
+        queueInfo
+      );
+
+      // b is waiting behind a, but is kept hidden as well
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockSqsClient.changeMessageVisibilityBatch).toHaveBeenCalledWith(queueInfo.queueUrl, [
+        { receiptHandle: 'handle-a', visibilityTimeout: 10 },
+        { receiptHandle: 'handle-b', visibilityTimeout: 10 },
+      ]);
+
+      finishers[0]({ success: true });
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a');
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-b', 10);
+
+      finishers[1]({ success: true });
+      await polling;
+      await jest.advanceTimersByTimeAsync(20000);
+
+      expect(mockSqsClient.changeMessageVisibilityBatch).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-b');
+    });
+
+    it('should stop extending a message once it has failed', async () => {
+      jest.useFakeTimers();
+      let finish: (value: any) => void = () => undefined;
+      mockInvoker.invokeHandler
+        .mockResolvedValueOnce({ success: false, error: new Error('boom') })
+        .mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+      mockSqsClient.receiveMessages.mockResolvedValueOnce([buildMessage('a'), buildMessage('b')]);
+      (poller as any).pollerStates.set('test-queue-handler.process', { isPolling: true, messageCount: 0, errorCount: 0 });
+
+      const polling = (poller as any).pollQueue(
+        { queueName: 'test-queue', handler: 'handler.process', visibilityTimeout: 10 },
+        queueInfo
+      );
+
+      await jest.advanceTimersByTimeAsync(5000);
+      finish({ success: true });
+      await polling;
+
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-b', 10);
+      expect(mockSqsClient.changeMessageVisibilityBatch).not.toHaveBeenCalled();
+    });
+
+    it('should warn when the function timeout exceeds the visibility timeout', async () => {
+      mockInvoker.getFunctionTimeout.mockReturnValue(60000);
+
+      poller.startPolling([
+        { queueName: 'test-queue', handler: 'handler.process', functionName: 'process', maxConcurrentPolls: 1 },
+      ]);
+      await new Promise(resolve => setImmediate(resolve));
+      await poller.stopPolling();
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('Function timeout (60s) for handler.process exceeds the visibility timeout (30s)')
+      );
+      expect(mockInvoker.getFunctionTimeout).toHaveBeenCalledWith({ handler: 'handler.process', functionName: 'process' });
+    });
+  });
+
+  describe('graceful shutdown', () => {
+    const startWithMessages = async (messages: Message[]) => {
+      mockSqsClient.receiveMessages.mockResolvedValueOnce(messages).mockResolvedValue([]);
+      poller.startPolling([{ queueName: 'test-queue', handler: 'handler.process', maxConcurrentPolls: 1 }]);
+      await new Promise(resolve => setTimeout(resolve, 10));
+    };
+
+    it('should wait for in-flight handlers and release prefetched messages', async () => {
+      let finish: (value: any) => void = () => undefined;
+      mockInvoker.invokeHandler.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+      await startWithMessages([buildMessage('a'), buildMessage('b'), buildMessage('c')]);
+      const stopping = poller.stopPolling();
+      setTimeout(() => finish({ success: true }), 10);
+      await stopping;
+
+      expect(mockInvoker.invokeHandler).toHaveBeenCalledTimes(1);
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a');
+      expect(mockSqsClient.changeMessageVisibilityBatch).toHaveBeenCalledWith(queueInfo.queueUrl, [
+        { receiptHandle: 'handle-b', visibilityTimeout: 0 },
+        { receiptHandle: 'handle-c', visibilityTimeout: 0 },
+      ]);
+    });
+
+    it('should leave prefetched messages hidden when release is disabled', async () => {
+      config.releaseOnShutdown = false;
+      mockInvoker.invokeHandler.mockImplementation(
+        () => new Promise(resolve => setTimeout(() => resolve({ success: true }), 10))
+      );
+
+      await startWithMessages([buildMessage('a'), buildMessage('b')]);
+      await poller.stopPolling();
+
+      expect(mockSqsClient.changeMessageVisibilityBatch).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting once the drain timeout passes', async () => {
+      let finish: (value: any) => void = () => undefined;
+      mockInvoker.invokeHandler.mockReturnValueOnce(new Promise(resolve => { finish = resolve; }));
+
+      await startWithMessages([buildMessage('a')]);
+      await poller.stopPolling(20);
+
+      expect(mockLogger.warn).toHaveBeenCalledWith(expect.stringContaining('Gave up waiting for in-flight handlers after 20ms'));
+      finish({ success: true });
+    });
+  });
+
+  describe('runtime poller control', () => {
+    const ordersConfig: QueueConfig = {
+      queueName: 'orders',
+      handler: 'handlers/order.process',
+      functionName: 'processOrder',
+      maxConcurrentPolls: 1,
+    };
+
+    beforeEach(() => {
+      config.pollInterval = 1;
+      mockSqsClient.receiveMessages.mockImplementation(async () => {
+        await new Promise(resolve => setTimeout(resolve, 2));
+        return [];
+      });
+    });
+
+    afterEach(async () => {
+      await poller.stopPolling();
+    });
+
+    it('should pause and resume a poller by function name', async () => {
+      await poller.addPoller(ordersConfig);
+
+      await expect(poller.pausePoller('processOrder')).resolves.toEqual(['orders-handlers/order.process']);
+      const callsWhilePaused = mockSqsClient.receiveMessages.mock.calls.length;
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(callsWhilePaused);
+      expect(poller.getPollerStates().get('orders-handlers/order.process')).toMatchObject({
+        isPolling: false,
+        isPaused: true,
+      });
+
+      expect(poller.resumePoller('orders')).toEqual(['orders-handlers/order.process']);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(mockSqsClient.receiveMessages.mock.calls.length).toBeGreaterThan(callsWhilePaused);
+      expect(poller.getPollerStates().get('orders-handlers/order.process')?.isPaused).toBe(false);
+    });
+
+    it('should leave other queues running while one is paused', async () => {
+      await poller.addPoller(ordersConfig);
+      await poller.addPoller({ queueName: 'payments', handler: 'handlers/payment.process', maxConcurrentPolls: 1 });
+
+      await poller.pausePoller('orders');
+
+      expect(poller.getPollerStates().get('payments-handlers/payment.process')?.isPolling).toBe(true);
+    });
+
+    it('should remove a poller and forget its state', async () => {
+      await poller.addPoller(ordersConfig);
+
+      await expect(poller.removePoller('orders')).resolves.toEqual(['orders-handlers/order.process']);
+
+      expect(poller.getPollerStates().size).toBe(0);
+      expect(poller.isPolling()).toBe(false);
+      await expect(poller.addPoller(ordersConfig)).resolves.toBe(true);
+    });
+
+    it('should return no pollers for unknown targets', async () => {
+      await expect(poller.pausePoller('unknown')).resolves.toEqual([]);
+      expect(poller.resumePoller('unknown')).toEqual([]);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const ordersConfig: QueueConfig = {
+      queueName: 'orders',
+      handler: 'handlers/order.process',
+      maxConcurrentPolls: 1,
+    };
+    const pollerId = 'orders-handlers/order.process';
+
+    beforeEach(() => {
+      config.pollInterval = 1;
+      config.circuitBreakerThreshold = 3;
+      mockSqsClient.receiveMessages.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    });
+
+    afterEach(async () => {
+      await poller.stopPolling();
+    });
+
+    const waitForCircuit = async (state: string) => {
+      for (let i = 0; i < 100 && poller.getPollerStates().get(pollerId)?.circuitState !== state; i++) {
+        await new Promise(resolve => setTimeout(resolve, 2));
+      }
+    };
+
+    it('should back off exponentially between failed polls', () => {
+      config.pollInterval = 1000;
+      config.maxErrorBackoff = 5000;
+      const backoff = (errors: number) => (poller as any).getErrorBackoff(errors);
+
+      expect([1, 2, 3, 4].map(backoff)).toEqual([1000, 2000, 4000, 5000]);
+    });
+
+    it('should open the circuit after consecutive errors and notify listeners', async () => {
+      const onConnectionLost = jest.fn();
+      poller.onConnectionLost(onConnectionLost);
+
+      await poller.addPoller(ordersConfig);
+      await waitForCircuit('open');
+
+      expect(poller.getPollerStates().get(pollerId)).toMatchObject({
+        isPolling: false,
+        consecutiveErrors: 3,
+        circuitState: 'open',
+        lastError: 'connect ECONNREFUSED',
+      });
+      expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(3);
+      expect(onConnectionLost).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reset the error count after a successful receive', async () => {
+      mockSqsClient.receiveMessages
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+        .mockResolvedValue([]);
+
+      await poller.addPoller(ordersConfig);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(poller.getPollerStates().get(pollerId)).toMatchObject({
+        isPolling: true,
+        errorCount: 2,
+        consecutiveErrors: 0,
+        circuitState: 'closed',
+      });
+    });
+
+    it('should refresh the queue URL and restart polling on reconnect', async () => {
+      await poller.addPoller(ordersConfig);
+      await waitForCircuit('open');
+
+      const recreated = { ...queueInfo, queueUrl: 'http://localhost:4566/000000000000/orders-recreated' };
+      mockSqsClient.getQueueInfo.mockResolvedValue(recreated);
+      mockSqsClient.receiveMessages.mockResolvedValue([]);
+
+      await poller.reconnect();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(poller.getPollerStates().get(pollerId)).toMatchObject({
+        isPolling: true,
+        consecutiveErrors: 0,
+        circuitState: 'closed',
+      });
+      expect(mockSqsClient.receiveMessages).toHaveBeenLastCalledWith(
+        recreated.queueUrl, 1, 30, 20, expect.any(AbortSignal)
+      );
+    });
+
+    it('should keep the circuit open when the queue cannot be reached yet', async () => {
+      await poller.addPoller(ordersConfig);
+      await waitForCircuit('open');
+      mockSqsClient.getQueueInfo.mockRejectedValue(new Error('Queue does not exist'));
+
+      await expect(poller.reconnect()).rejects.toThrow(`Failed to reconnect 1 poller(s): ${pollerId}`);
+      expect(poller.getPollerStates().get(pollerId)?.circuitState).toBe('open');
+    });
+
+    it('should not restart a paused poller on reconnect', async () => {
+      await poller.addPoller(ordersConfig);
+      await waitForCircuit('open');
+      await poller.pausePoller('orders');
+      mockSqsClient.receiveMessages.mockResolvedValue([]);
+      mockSqsClient.receiveMessages.mockClear();
+
+      await poller.reconnect();
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      expect(mockSqsClient.receiveMessages).not.toHaveBeenCalled();
+      expect(poller.getPollerStates().get(pollerId)).toMatchObject({ isPaused: true, circuitState: 'closed' });
+    });
+  });
+
+  describe('dead letter handling', () => {
+    const dlqInfo: QueueInfo = {
+      queueUrl: 'http://localhost:4566/000000000000/test-queue-dlq',
+      queueName: 'test-queue-dlq',
+    };
+    const queueConfig: QueueConfig = {
+      queueName: 'test-queue',
+      handler: 'handler.process',
+      dlq: { enabled: true, maxReceiveCount: 3 },
+    };
+    const failedMessage: Message = {
+      ...buildMessage('a'),
+      Attributes: { ApproximateReceiveCount: '3' },
+      MessageAttributes: { tenant: { DataType: 'String', StringValue: 'acme' } },
+    };
+
+    const fail = (qc: QueueConfig, info: QueueInfo = queueInfo) =>
+      (poller as any).handleMessageFailure(failedMessage, qc, info, new Error('boom'));
+
+    beforeEach(() => {
+      mockSqsClient.getQueueInfo.mockResolvedValue(dlqInfo);
+    });
+
+    it('should leave the move to a native RedrivePolicy', async () => {
+      const redriveQueueInfo: QueueInfo = {
+        ...queueInfo,
+        attributes: {
+          RedrivePolicy: JSON.stringify({ deadLetterTargetArn: 'arn:aws:sqs:us-east-1:000000000000:test-queue-dlq', maxReceiveCount: 3 }),
+        },
+      };
+
+      await fail(queueConfig, redriveQueueInfo);
+
+      expect(mockSqsClient.changeMessageVisibility).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a', 0);
+      expect(mockSqsClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockSqsClient.deleteMessage).not.toHaveBeenCalled();
+    });
+
+    it('should copy the message verbatim when the queue has no RedrivePolicy', async () => {
+      await fail(queueConfig);
+
+      expect(mockSqsClient.sendMessage).toHaveBeenCalledWith(
+        dlqInfo.queueUrl,
+        failedMessage.Body,
+        expect.objectContaining({
+          tenant: { DataType: 'String', StringValue: 'acme', BinaryValue: undefined },
+          'DeadLetter.FailureReason': { DataType: 'String', StringValue: 'boom' },
+        }),
+        undefined
+      );
+      expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueInfo.queueUrl, 'handle-a');
+    });
+
+    it('should send the JSON envelope only when opted in', async () => {
+      await fail({ ...queueConfig, dlq: { enabled: true, maxReceiveCount: 3, mode: 'envelope' } });
+
+      const [, body, attributes] = mockSqsClient.sendMessage.mock.calls[0];
+      expect(JSON.parse(body)).toMatchObject({ originalMessage: { MessageId: 'a' }, failureReason: 'boom' });
+      expect(attributes).toBeUndefined();
+    });
+
+    it('should retry instead of moving before maxReceiveCount is reached', async () => {
+      await (poller as any).handleMessageFailure(buildMessage('b'), queueConfig, queueInfo, new Error('boom'));
+
+      expect(mockSqsClient.sendMessage).not.toHaveBeenCalled();
+      expect(mockSqsClient.deleteMessage).not.toHaveBeenCalled();
+    });
+  });
+});
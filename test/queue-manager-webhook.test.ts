@@ -12,6 +12,7 @@ describe('QueueManager - Webhook Configuration', () => {
   beforeEach(() => {
     mockSqsClient = {
       createQueue: jest.fn(),
+      queueExists: jest.fn().mockResolvedValue(false),
       getQueueInfo: jest.fn(),
       setQueueAttributes: jest.fn(),
       receiveMessages: jest.fn(),
@@ -30,6 +31,7 @@ describe('QueueManager - Webhook Configuration', () => {
 
     config = {
       enabled: true,
+      backend: 'localstack',
       endpoint: 'http://localhost:4566',
       region: 'us-east-1',
       accessKeyId: 'test',
@@ -44,6 +46,28 @@ describe('QueueManager - Webhook Configuration', () => {
       debug: false,
       skipCacheInvalidation: false,
       lambdaTimeout: 30000,
+      invocationMode: 'single',
+      shutdownTimeout: 10000,
+      releaseOnShutdown: true,
+      dlqMode: 'native',
+      purgeOnStart: false,
+      teardown: false,
+      controlApi: { enabled: false, port: 4588, host: '127.0.0.1' },
+      sqsServer: { enabled: false, port: 9324, host: '127.0.0.1' },
+      localstack: {
+        autoStart: false,
+        image: 'localstack/localstack',
+        tag: 'latest',
+        port: 4566,
+        services: 'sqs',
+        containerName: 'serverless-offline-sqs-localstack',
+        startTimeout: 60000,
+      },
+      circuitBreakerThreshold: 5,
+      maxErrorBackoff: 30000,
+      healthCheckInterval: 5000,
+      readinessTimeout: 60000,
+      readinessInterval: 1000,
       queues: [],
     };
 
@@ -96,10 +120,14 @@ describe('QueueManager - Webhook Configuration', () => {
       await expect(queueManager.createQueuesFromCloudFormation(cloudFormationResources))
         .resolves.not.toThrow();
 
-      // Verify that queues were created with sanitized names (dots replaced with hyphens)
+      // Verify that FIFO queues keep their suffix and FIFO attributes
       expect(mockSqsClient.createQueue).toHaveBeenCalledWith(
-        'wetrained-webhook-events-local-fifo',
+        'wetrained-webhook-events-local.fifo',
         expect.objectContaining({
+          FifoQueue: 'true',
+          ContentBasedDeduplication: 'false',
+          DeduplicationScope: 'queue',
+          FifoThroughputLimit: 'perQueue',
           VisibilityTimeout: '300',
           ReceiveMessageWaitTimeSeconds: '20',
           MessageRetentionPeriod: '1209600'
@@ -107,8 +135,9 @@ describe('QueueManager - Webhook Configuration', () => {
       );
 
       expect(mockSqsClient.createQueue).toHaveBeenCalledWith(
-        'wetrained-webhook-events-dlq-local-fifo',
+        'wetrained-webhook-events-dlq-local.fifo',
         expect.objectContaining({
+          FifoQueue: 'true',
           VisibilityTimeout: '300',
           MessageRetentionPeriod: '1209600'
         })
@@ -148,7 +177,15 @@ describe('QueueManager - Webhook Configuration', () => {
       const testCases = [
         {
           input: 'wetrained-webhook-events-local.fifo',
-          expected: 'wetrained-webhook-events-local-fifo'
+          expected: 'wetrained-webhook-events-local.fifo'
+        },
+        {
+          input: 'orders.v2.fifo',
+          expected: 'orders-v2.fifo'
+        },
+        {
+          input: 'b'.repeat(100) + '.fifo',
+          expected: 'b'.repeat(75) + '.fifo'
         },
         {
           input: 'queue.with.dots.and@symbols!',
@@ -249,4 +286,96 @@ describe('QueueManager - Webhook Configuration', () => {
       expect(mockSqsClient.createQueue).toHaveBeenCalledWith('test-queue-2', expect.any(Object));
     });
   });
-});
\ No newline at end of file
+
+  describe('FIFO queues from configuration', () => {
+    it('should create FIFO queues with a FIFO dead letter queue', async () => {
+      config.queues = [
+        {
+          queueName: 'orders.fifo',
+          handler: 'handler.process',
+          contentBasedDeduplication: true,
+          dlq: { enabled: true },
+        },
+      ];
+
+      await queueManager.createQueuesFromConfig();
+
+      expect(mockSqsClient.createQueue).toHaveBeenCalledWith('orders-dlq.fifo', undefined);
+      expect(mockSqsClient.createQueue).toHaveBeenCalledWith(
+        'orders.fifo',
+        expect.objectContaining({
+          FifoQueue: 'true',
+          ContentBasedDeduplication: 'true',
+          RedrivePolicy: expect.stringContaining('orders-dlq.fifo'),
+        })
+      );
+    });
+  });
+
+  describe('purge and teardown', () => {
+    const queueUrl = (name: string) => `http://localhost:4566/000000000000/${name}`;
+
+    beforeEach(() => {
+      config.queues = [{ queueName: 'orders', handler: 'handlers/order.process', dlq: { enabled: true } }];
+      mockSqsClient.createQueue.mockImplementation(async (queueName: string) => ({ queueName, queueUrl: queueUrl(queueName) }));
+      mockSqsClient.getQueueInfo.mockImplementation(async (queueName: string) => ({ queueName, queueUrl: queueUrl(queueName) }));
+      mockSqsClient.purgeQueue = jest.fn().mockResolvedValue(undefined);
+      mockSqsClient.deleteQueue = jest.fn().mockResolvedValue(undefined);
+    });
+
+    it('should purge every queue including DLQs', async () => {
+      const purged = await queueManager.purgeQueues({
+        AuditQueue: { Type: 'AWS::SQS::Queue', Properties: { QueueName: 'audit' } },
+      });
+
+      expect(purged).toEqual(['orders', 'audit', 'orders-dlq']);
+      expect(mockSqsClient.purgeQueue).toHaveBeenCalledWith(queueUrl('orders-dlq'));
+    });
+
+    it('should purge only DLQs when asked', async () => {
+      await expect(queueManager.purgeQueues(undefined, true)).resolves.toEqual(['orders-dlq']);
+    });
+
+    it('should skip queues that do not exist and keep going after a failed purge', async () => {
+      config.queues.push({ queueName: 'payments', handler: 'handlers/payment.process' });
+      mockSqsClient.getQueueInfo.mockImplementation(async (queueName: string) => {
+        if (queueName === 'orders-dlq') {
+          throw new Error('Queue does not exist');
+        }
+        return { queueName, queueUrl: queueUrl(queueName) };
+      });
+      mockSqsClient.purgeQueue.mockRejectedValueOnce(new Error('Failed to purge queue orders: purge in progress'));
+
+      await expect(queueManager.purgeQueues()).resolves.toEqual(['payments']);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to purge queue orders: purge in progress');
+    });
+
+    it('should delete the queues it created', async () => {
+      await queueManager.createQueuesFromConfig();
+
+      await queueManager.deleteCreatedQueues();
+
+      expect(mockSqsClient.deleteQueue).toHaveBeenCalledWith(queueUrl('orders-dlq'));
+      expect(mockSqsClient.deleteQueue).toHaveBeenCalledWith(queueUrl('orders'));
+      expect(queueManager.getCreatedQueues().size).toBe(0);
+    });
+
+    it('should keep queues that existed before it started', async () => {
+      mockSqsClient.queueExists.mockImplementation(async (queueName: string) => queueName === 'orders-dlq');
+      await queueManager.createQueuesFromConfig();
+
+      await queueManager.deleteCreatedQueues();
+
+      expect(mockSqsClient.deleteQueue).toHaveBeenCalledWith(queueUrl('orders'));
+      expect(mockSqsClient.deleteQueue).not.toHaveBeenCalledWith(queueUrl('orders-dlq'));
+    });
+
+    it('should not tear down queues it only looked up', async () => {
+      await queueManager.purgeQueues();
+
+      await queueManager.deleteCreatedQueues();
+
+      expect(mockSqsClient.deleteQueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { ReadinessProbe } from '../src/sqs/readiness';
+import { defaultConfig, PluginConfig } from '../src/config/defaults';
+
+describe('ReadinessProbe', () => {
+  let mockLogger: any;
+  let listQueues: jest.Mock;
+  let mockSqsClient: any;
+  let config: PluginConfig;
+  let server: Server;
+  let endpoint: string;
+  let healthResponses: Array<{ statusCode: number; body: any }>;
+
+  beforeEach(async () => {
+    mockLogger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    listQueues = jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+    mockSqsClient = { getBackend: () => ({ listQueues }) };
+    config = { ...defaultConfig, readinessTimeout: 200, readinessInterval: 20 };
+
+    healthResponses = [];
+    server = createServer((req, res) => {
+      const response = healthResponses.length > 1 ? healthResponses.shift()! : healthResponses[0];
+      res.statusCode = req.url === '/_localstack/health' ? response.statusCode : 404;
+      res.end(JSON.stringify(response.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('is ready when LocalStack reports SQS as running', async () => {
+    healthResponses = [{ statusCode: 200, body: { services: { sqs: 'running' } } }];
+    const probe = new ReadinessProbe(mockSqsClient, config, mockLogger);
+
+    await expect(probe.waitUntilReady(endpoint)).resolves.toBeUndefined();
+    expect(listQueues).not.toHaveBeenCalled();
+  });
+
+  it('retries until SQS has started', async () => {
+    healthResponses = [
+      { statusCode: 200, body: { services: { sqs: 'initializing' } } },
+      { statusCode: 200, body: { services: { sqs: 'initializing' } } },
+      { statusCode: 200, body: { services: { sqs: 'available' } } },
+    ];
+    const probe = new ReadinessProbe(mockSqsClient, config, mockLogger);
+
+    await probe.waitUntilReady(endpoint);
+
+    expect(listQueues).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to ListQueues when the endpoint has no health check', async () => {
+    healthResponses = [{ statusCode: 404, body: {} }];
+    listQueues.mockResolvedValue({ QueueUrls: [] });
+    const probe = new ReadinessProbe(mockSqsClient, config, mockLogger);
+
+    await probe.waitUntilReady(endpoint);
+
+    expect(listQueues).toHaveBeenCalledWith({ MaxResults: 1 });
+  });
+
+  it('names the endpoint and both checks when it gives up', async () => {
+    healthResponses = [{ statusCode: 200, body: { services: { sqs: 'error' } } }];
+    const probe = new ReadinessProbe(mockSqsClient, config, mockLogger);
+
+    const error = await probe.waitUntilReady(endpoint).catch(err => err);
+
+    expect(error.message).toContain(`SQS at ${endpoint} was not ready after`);
+    expect(error.message).toContain('/_localstack/health: sqs is "error"; ListQueues: connect ECONNREFUSED');
+  });
+});
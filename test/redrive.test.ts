@@ -0,0 +1,154 @@
+import { Message } from '@aws-sdk/client-sqs';
+import { DeadLetterRedriver } from '../src/sqs/redrive';
+import { SqsClientWrapper } from '../src/sqs/client';
+import { Logger } from '../src/utils/logger';
+import { PluginConfig } from '../src/config/defaults';
+
+describe('DeadLetterRedriver', () => {
+  let redriver: DeadLetterRedriver;
+  let mockSqsClient: jest.Mocked<SqsClientWrapper>;
+  let mockLogger: jest.Mocked<Logger>;
+  let dlqDepth: string;
+
+  const queueUrl = (name: string) => `http://localhost:4566/000000000000/${name}`;
+  const dlqMessage = (id: string, body: string, extra: Partial<Message> = {}): Message => ({
+    MessageId: id,
+    ReceiptHandle: `handle-${id}`,
+    Body: body,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    dlqDepth = '10';
+    mockSqsClient = {
+      getQueueInfo: jest.fn().mockImplementation(async (queueName: string) => ({
+        queueName,
+        queueUrl: queueUrl(queueName),
+        attributes: queueName === 'orders'
+          ? { RedrivePolicy: JSON.stringify({ deadLetterTargetArn: 'arn:aws:sqs:us-east-1:000000000000:orders-failed', maxReceiveCount: 3 }) }
+          : { ApproximateNumberOfMessages: dlqDepth },
+      })),
+      receiveMessages: jest.fn().mockResolvedValue([]),
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+      deleteMessage: jest.fn().mockResolvedValue(undefined),
+    } as any;
+
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    redriver = new DeadLetterRedriver(mockSqsClient, { deadLetterQueueSuffix: '-dlq' } as PluginConfig, mockLogger);
+  });
+
+  it('should move every message to the queue named by the RedrivePolicy', async () => {
+    mockSqsClient.receiveMessages
+      .mockResolvedValueOnce([dlqMessage('a', 'first'), dlqMessage('b', 'second')])
+      .mockResolvedValueOnce([]);
+
+    const result = await redriver.redrive('orders');
+
+    expect(result).toEqual({ sourceQueue: 'orders', deadLetterQueue: 'orders-failed', moved: 2 });
+    expect(mockSqsClient.receiveMessages).toHaveBeenCalledWith(queueUrl('orders-failed'), 10, 30, 1);
+    expect(mockSqsClient.sendMessage).toHaveBeenCalledWith(queueUrl('orders'), 'first', undefined, undefined);
+    expect(mockSqsClient.deleteMessage).toHaveBeenCalledWith(queueUrl('orders-failed'), 'handle-b');
+  });
+
+  it('should move only the messages in the DLQ when the redrive starts', async () => {
+    dlqDepth = '3';
+    // Messages that fail again keep arriving in the DLQ
+    mockSqsClient.receiveMessages.mockImplementation(async (_url, maxMessages) => (
+      Array.from({ length: maxMessages! }, (_, i) => dlqMessage(`m${i}`, 'again'))
+    ));
+
+    const result = await redriver.redrive('orders');
+
+    expect(result.moved).toBe(3);
+    expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(1);
+    expect(mockSqsClient.receiveMessages).toHaveBeenCalledWith(queueUrl('orders-failed'), 3, 30, 1);
+  });
+
+  it('should fall back to the configured DLQ', async () => {
+    const result = await redriver.redrive('payments', {}, {
+      queueName: 'payments',
+      handler: 'handlers/payment.process',
+      dlq: { enabled: true },
+    });
+
+    expect(result.deadLetterQueue).toBe('payments-dlq');
+  });
+
+  it('should fail when the queue has no DLQ', async () => {
+    await expect(redriver.redrive('payments')).rejects.toThrow('No dead-letter queue found for payments');
+  });
+
+  it('should stop after the requested number of messages', async () => {
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([dlqMessage('a', 'first'), dlqMessage('b', 'second')]);
+
+    const result = await redriver.redrive('orders', { count: 2 });
+
+    expect(result.moved).toBe(2);
+    expect(mockSqsClient.receiveMessages).toHaveBeenCalledTimes(1);
+    expect(mockSqsClient.receiveMessages).toHaveBeenCalledWith(queueUrl('orders-failed'), 2, 30, 1);
+  });
+
+  it('should unwrap envelopes and drop failure metadata', async () => {
+    const envelope = JSON.stringify({
+      originalMessage: {
+        MessageId: 'original',
+        Body: '{"orderId":42}',
+        MessageAttributes: { tenant: { DataType: 'String', StringValue: 'acme' } },
+      },
+      failureReason: 'boom',
+      failureTime: '2024-01-01T00:00:00.000Z',
+    });
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([
+      dlqMessage('a', envelope),
+      dlqMessage('b', 'copied', {
+        MessageAttributes: {
+          tenant: { DataType: 'String', StringValue: 'acme' },
+          'DeadLetter.FailureReason': { DataType: 'String', StringValue: 'boom' },
+        },
+      }),
+    ]);
+
+    await redriver.redrive('orders');
+
+    const restoredAttributes = { tenant: { DataType: 'String', StringValue: 'acme', BinaryValue: undefined } };
+    expect(mockSqsClient.sendMessage).toHaveBeenNthCalledWith(1, queueUrl('orders'), '{"orderId":42}', restoredAttributes, undefined);
+    expect(mockSqsClient.sendMessage).toHaveBeenNthCalledWith(2, queueUrl('orders'), 'copied', restoredAttributes, undefined);
+  });
+
+  it('should keep the message group when redriving to a FIFO queue', async () => {
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([
+      dlqMessage('a', 'first', { Attributes: { MessageGroupId: 'customer-1' } }),
+    ]);
+
+    await redriver.redrive('orders.fifo', {}, {
+      queueName: 'orders.fifo',
+      handler: 'handlers/order.process',
+      dlq: { enabled: true },
+    });
+
+    expect(mockSqsClient.getQueueInfo).toHaveBeenCalledWith('orders-dlq.fifo');
+    expect(mockSqsClient.sendMessage).toHaveBeenCalledWith(
+      queueUrl('orders.fifo'),
+      'first',
+      undefined,
+      { messageGroupId: 'customer-1', messageDeduplicationId: 'a' }
+    );
+  });
+
+  it('should report how many messages moved before a failure', async () => {
+    mockSqsClient.receiveMessages.mockResolvedValueOnce([dlqMessage('a', 'first'), dlqMessage('b', 'second')]);
+    mockSqsClient.sendMessage
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Queue is gone'));
+
+    await expect(redriver.redrive('orders')).rejects.toThrow(
+      'Redrive from orders-failed stopped after 1 message(s): Queue is gone'
+    );
+  });
+});
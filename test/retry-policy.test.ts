@@ -0,0 +1,36 @@
+import { calculateRetryDelay } from '../src/sqs/retry-policy';
+
+describe('calculateRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should use the base delay for fixed backoff', () => {
+    expect(calculateRetryDelay({ strategy: 'fixed', baseDelay: 5 }, 1)).toBe(5);
+    expect(calculateRetryDelay({ strategy: 'fixed', baseDelay: 5 }, 4)).toBe(5);
+  });
+
+  it('should grow linearly with the attempt number', () => {
+    expect(calculateRetryDelay({ strategy: 'linear', baseDelay: 5 }, 1)).toBe(5);
+    expect(calculateRetryDelay({ strategy: 'linear', baseDelay: 5 }, 3)).toBe(15);
+  });
+
+  it('should double each attempt for exponential backoff', () => {
+    const policy = { strategy: 'exponential' as const, baseDelay: 2 };
+
+    expect(calculateRetryDelay(policy, 1)).toBe(2);
+    expect(calculateRetryDelay(policy, 2)).toBe(4);
+    expect(calculateRetryDelay(policy, 5)).toBe(32);
+  });
+
+  it('should cap the delay at maxDelay and the SQS limit', () => {
+    expect(calculateRetryDelay({ strategy: 'exponential', baseDelay: 2, maxDelay: 10 }, 10)).toBe(10);
+    expect(calculateRetryDelay({ strategy: 'exponential', baseDelay: 60 }, 20)).toBe(43200);
+  });
+
+  it('should apply full jitter', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(calculateRetryDelay({ strategy: 'exponential', baseDelay: 10, jitter: true }, 2)).toBe(10);
+  });
+});
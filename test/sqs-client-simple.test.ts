@@ -18,6 +18,12 @@ jest.mock('@aws-sdk/client-sqs', () => ({
   DeleteMessageCommand: jest.fn().mockImplementation((params) => ({ input: params })),
   DeleteMessageBatchCommand: jest.fn().mockImplementation((params) => ({ input: params })),
   SendMessageCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  SendMessageBatchCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  ChangeMessageVisibilityCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  ChangeMessageVisibilityBatchCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  ListQueuesCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  PurgeQueueCommand: jest.fn().mockImplementation((params) => ({ input: params })),
+  DeleteQueueCommand: jest.fn().mockImplementation((params) => ({ input: params })),
 }));
 
 describe('SqsClientWrapper', () => {
@@ -35,6 +41,7 @@ describe('SqsClientWrapper', () => {
 
     config = {
       enabled: true,
+      backend: 'localstack',
       region: 'us-east-1',
       accessKeyId: 'test',
       secretAccessKey: 'test',
@@ -48,6 +55,28 @@ describe('SqsClientWrapper', () => {
       debug: false,
       skipCacheInvalidation: false,
       lambdaTimeout: 30000,
+      invocationMode: 'single',
+      shutdownTimeout: 10000,
+      releaseOnShutdown: true,
+      dlqMode: 'native',
+      purgeOnStart: false,
+      teardown: false,
+      controlApi: { enabled: false, port: 4588, host: '127.0.0.1' },
+      sqsServer: { enabled: false, port: 9324, host: '127.0.0.1' },
+      localstack: {
+        autoStart: false,
+        image: 'localstack/localstack',
+        tag: 'latest',
+        port: 4566,
+        services: 'sqs',
+        containerName: 'serverless-offline-sqs-localstack',
+        startTimeout: 60000,
+      },
+      circuitBreakerThreshold: 5,
+      maxErrorBackoff: 30000,
+      healthCheckInterval: 5000,
+      readinessTimeout: 60000,
+      readinessInterval: 1000,
       queues: [],
     };
 
@@ -83,9 +112,9 @@ describe('SqsClientWrapper', () => {
       await expect(sqsClient.createQueue('test-queue')).rejects.toThrow('Failed to create queue test-queue: No queue URL returned');
     });
 
-    it('should handle queue already exists error', async () => {
+    it.each(['QueueAlreadyExists', 'QueueNameExists'])('should handle queue already exists error %s', async (name) => {
       const error = new Error('Queue already exists');
-      error.name = 'QueueAlreadyExists';
+      error.name = name;
       mockSQSClient.send
         .mockRejectedValueOnce(error)
         .mockResolvedValueOnce({ QueueUrl: 'http://localhost:4566/000000000000/test-queue' })
@@ -105,6 +134,21 @@ describe('SqsClientWrapper', () => {
     });
   });
 
+  describe('queueExists', () => {
+    it('should tell a missing queue apart from other errors', async () => {
+      const missing = new Error('The specified queue does not exist.');
+      missing.name = 'QueueDoesNotExist';
+      mockSQSClient.send
+        .mockResolvedValueOnce({ QueueUrl: 'http://localhost:4566/000000000000/test-queue' })
+        .mockRejectedValueOnce(missing)
+        .mockRejectedValueOnce(new Error('connect ECONNREFUSED'));
+
+      await expect(sqsClient.queueExists('test-queue')).resolves.toBe(true);
+      await expect(sqsClient.queueExists('test-queue')).resolves.toBe(false);
+      await expect(sqsClient.queueExists('test-queue')).rejects.toThrow('Failed to look up queue test-queue: connect ECONNREFUSED');
+    });
+  });
+
   describe('getQueueInfo', () => {
     it('should get queue info successfully', async () => {
       mockSQSClient.send
@@ -143,14 +187,12 @@ describe('SqsClientWrapper', () => {
       expect(result).toEqual([]);
     });
 
-    it('should handle receive errors', async () => {
+    it('should throw receive errors so the poller can back off', async () => {
       const error = new Error('Receive error');
       mockSQSClient.send.mockRejectedValue(error);
 
-      const result = await sqsClient.receiveMessages('http://localhost:4566/000000000000/test-queue');
-
-      expect(result).toEqual([]);
-      expect(mockLogger.error).toHaveBeenCalledWith('Failed to receive messages from http://localhost:4566/000000000000/test-queue: Receive error');
+      await expect(sqsClient.receiveMessages('http://localhost:4566/000000000000/test-queue'))
+        .rejects.toThrow('Failed to receive messages from http://localhost:4566/000000000000/test-queue: Receive error');
     });
   });
 
@@ -194,6 +236,42 @@ describe('SqsClientWrapper', () => {
 
       expect(mockLogger.warn).toHaveBeenCalledWith('Failed to delete 1 messages');
     });
+
+    it('should split more than 10 handles into several requests', async () => {
+      mockSQSClient.send.mockResolvedValue({ Failed: [] });
+      const handles = Array.from({ length: 25 }, (_, i) => `handle${i}`);
+
+      await sqsClient.deleteMessages('http://localhost:4566/000000000000/test-queue', handles);
+
+      expect(mockSQSClient.send).toHaveBeenCalledTimes(3);
+      expect(mockSQSClient.send.mock.calls[2][0].input.Entries).toHaveLength(5);
+    });
+  });
+
+  describe('changeMessageVisibility', () => {
+    it('should change visibility of a single message', async () => {
+      mockSQSClient.send.mockResolvedValue({});
+
+      await sqsClient.changeMessageVisibility('http://localhost:4566/000000000000/test-queue', 'handle1', 60);
+
+      expect(mockSQSClient.send.mock.calls[0][0].input).toEqual({
+        QueueUrl: 'http://localhost:4566/000000000000/test-queue',
+        ReceiptHandle: 'handle1',
+        VisibilityTimeout: 60,
+      });
+    });
+
+    it('should change visibility in batch and report failures', async () => {
+      mockSQSClient.send.mockResolvedValue({ Failed: [{ Id: '1', Code: 'ReceiptHandleIsInvalid' }] });
+
+      await sqsClient.changeMessageVisibilityBatch('http://localhost:4566/000000000000/test-queue', [
+        { receiptHandle: 'handle1', visibilityTimeout: 30 },
+        { receiptHandle: 'handle2', visibilityTimeout: 30 },
+      ]);
+
+      expect(mockSQSClient.send.mock.calls[0][0].input.Entries).toHaveLength(2);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to change visibility of 1 messages');
+    });
   });
 
   describe('sendMessage', () => {
@@ -202,7 +280,7 @@ describe('SqsClientWrapper', () => {
 
       await sqsClient.sendMessage('http://localhost:4566/000000000000/test-queue', 'test message');
 
-      expect(mockLogger.debug).toHaveBeenCalledWith('Sent message to DLQ: http://localhost:4566/000000000000/test-queue');
+      expect(mockLogger.debug).toHaveBeenCalledWith('Sent message to queue: http://localhost:4566/000000000000/test-queue');
     });
 
     it('should handle send errors', async () => {
@@ -210,7 +288,35 @@ describe('SqsClientWrapper', () => {
       mockSQSClient.send.mockRejectedValue(error);
 
       await expect(sqsClient.sendMessage('http://localhost:4566/000000000000/test-queue', 'test')).rejects.toThrow('Send error');
-      expect(mockLogger.error).toHaveBeenCalledWith('Failed to send message to DLQ: Send error');
+      expect(mockLogger.error).toHaveBeenCalledWith('Failed to send message: Send error');
+    });
+  });
+
+  describe('sendMessageBatch', () => {
+    it('should send messages in chunks of 10', async () => {
+      mockSQSClient.send.mockResolvedValue({ Successful: [] });
+      const messages = Array.from({ length: 12 }, (_, i) => ({ body: `message ${i}` }));
+
+      const sent = await sqsClient.sendMessageBatch('http://localhost:4566/000000000000/test-queue', messages);
+
+      expect(sent).toBe(12);
+      expect(mockSQSClient.send).toHaveBeenCalledTimes(2);
+      expect(mockSQSClient.send.mock.calls[1][0].input.Entries).toEqual([
+        expect.objectContaining({ Id: '0', MessageBody: 'message 10' }),
+        expect.objectContaining({ Id: '1', MessageBody: 'message 11' }),
+      ]);
+    });
+
+    it('should report rejected entries', async () => {
+      mockSQSClient.send.mockResolvedValue({ Failed: [{ Id: '1', Code: 'InvalidParameterValue', Message: 'Missing group' }] });
+
+      const sent = await sqsClient.sendMessageBatch('http://localhost:4566/000000000000/test-queue', [
+        { body: 'a' },
+        { body: 'b' },
+      ]);
+
+      expect(sent).toBe(1);
+      expect(mockLogger.warn).toHaveBeenCalledWith('Failed to send 1 messages (message 2: Missing group)');
     });
   });
 
@@ -231,6 +337,49 @@ describe('SqsClientWrapper', () => {
     });
   });
 
+  describe('purgeQueue', () => {
+    it('should purge the queue', async () => {
+      mockSQSClient.send.mockResolvedValue({});
+
+      await sqsClient.purgeQueue('http://localhost:4566/000000000000/test-queue');
+
+      expect(mockSQSClient.send.mock.calls[0][0].input).toEqual({ QueueUrl: 'http://localhost:4566/000000000000/test-queue' });
+    });
+
+    it('should handle purge errors', async () => {
+      mockSQSClient.send.mockRejectedValue(new Error('Only one PurgeQueue operation is allowed every 60 seconds'));
+
+      await expect(sqsClient.purgeQueue('http://localhost:4566/000000000000/test-queue')).rejects.toThrow(
+        'Failed to purge queue http://localhost:4566/000000000000/test-queue: Only one PurgeQueue operation is allowed every 60 seconds'
+      );
+    });
+  });
+
+  describe('deleteQueue', () => {
+    it('should handle delete queue errors', async () => {
+      mockSQSClient.send.mockRejectedValue(new Error('Queue does not exist'));
+
+      await expect(sqsClient.deleteQueue('http://localhost:4566/000000000000/test-queue')).rejects.toThrow(
+        'Failed to delete queue http://localhost:4566/000000000000/test-queue: Queue does not exist'
+      );
+    });
+  });
+
+  describe('checkConnection', () => {
+    it('should report a reachable endpoint', async () => {
+      mockSQSClient.send.mockResolvedValue({ QueueUrls: [] });
+
+      await expect(sqsClient.checkConnection()).resolves.toBe(true);
+    });
+
+    it('should report an unreachable endpoint without throwing', async () => {
+      mockSQSClient.send.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+      await expect(sqsClient.checkConnection()).resolves.toBe(false);
+      expect(mockLogger.debug).toHaveBeenCalledWith('SQS endpoint health check failed: connect ECONNREFUSED');
+    });
+  });
+
   describe('getClient', () => {
     it('should return the SQS client', () => {
       const client = sqsClient.getClient();
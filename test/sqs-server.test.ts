@@ -0,0 +1,186 @@
+import { request } from 'http';
+import {
+  SQSClient,
+  CreateQueueCommand,
+  SendMessageCommand,
+  SendMessageBatchCommand,
+  ReceiveMessageCommand,
+  DeleteMessageCommand,
+  GetQueueAttributesCommand,
+  GetQueueUrlCommand,
+} from '@aws-sdk/client-sqs';
+import { getSqsServerUrl, SqsServer } from '../src/server/sqs-server';
+import { MemorySqsBackend } from '../src/sqs/memory-backend';
+import { Logger } from '../src/utils/logger';
+
+describe('SqsServer', () => {
+  let server: SqsServer;
+  let backend: MemorySqsBackend;
+  let client: SQSClient;
+  let mockLogger: jest.Mocked<Logger>;
+
+  const query = (params: Record<string, string>, path = '/'): Promise<{ status: number; body: string }> => {
+    const url = new URL(server.getUrl());
+    return new Promise((resolve, reject) => {
+      const req = request({
+        host: url.hostname,
+        port: url.port,
+        method: 'POST',
+        path,
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      }, res => {
+        let data = '';
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => resolve({ status: res.statusCode!, body: data }));
+      });
+      req.on('error', reject);
+      req.end(new URLSearchParams({ Version: '2012-11-05', ...params }).toString());
+    });
+  };
+
+  beforeEach(async () => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    backend = new MemorySqsBackend({ region: 'us-east-1' });
+    server = new SqsServer(backend, { enabled: true, port: 0, host: '127.0.0.1' }, mockLogger);
+    await server.start();
+    backend.setBaseUrl(server.getUrl());
+
+    client = new SQSClient({
+      region: 'us-east-1',
+      endpoint: server.getUrl(),
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    });
+  });
+
+  afterEach(async () => {
+    client.destroy();
+    await server.stop();
+  });
+
+  describe('JSON protocol', () => {
+    it('should serve the AWS SDK', async () => {
+      const { QueueUrl } = await client.send(new CreateQueueCommand({ QueueName: 'orders' }));
+      await client.send(new SendMessageCommand({
+        QueueUrl,
+        MessageBody: 'hello',
+        MessageAttributes: {
+          source: { DataType: 'String', StringValue: 'test' },
+          payload: { DataType: 'Binary', BinaryValue: Uint8Array.from([1, 2, 3]) },
+        },
+      }));
+
+      const { Messages = [] } = await client.send(new ReceiveMessageCommand({
+        QueueUrl,
+        MessageAttributeNames: ['All'],
+        MessageSystemAttributeNames: ['ApproximateReceiveCount'],
+      }));
+      await client.send(new DeleteMessageCommand({ QueueUrl, ReceiptHandle: Messages[0].ReceiptHandle }));
+      const { Attributes } = await client.send(new GetQueueAttributesCommand({
+        QueueUrl,
+        AttributeNames: ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesNotVisible'],
+      }));
+
+      expect(QueueUrl).toBe(`${server.getUrl()}/000000000000/orders`);
+      expect(Messages[0].Body).toBe('hello');
+      expect(Messages[0].Attributes).toEqual({ ApproximateReceiveCount: '1' });
+      expect(Messages[0].MessageAttributes?.source.StringValue).toBe('test');
+      expect(Array.from(Messages[0].MessageAttributes?.payload.BinaryValue || [])).toEqual([1, 2, 3]);
+      expect(Attributes).toEqual({ ApproximateNumberOfMessages: '0', ApproximateNumberOfMessagesNotVisible: '0' });
+    });
+
+    it('should report partial batch failures', async () => {
+      const { QueueUrl } = await client.send(new CreateQueueCommand({ QueueName: 'orders' }));
+
+      const response = await client.send(new SendMessageBatchCommand({
+        QueueUrl,
+        Entries: [
+          { Id: 'ok', MessageBody: 'a' },
+          { Id: 'bad', MessageBody: 'b', DelaySeconds: 1000 },
+        ],
+      }));
+
+      expect(response.Successful?.map(entry => entry.Id)).toEqual(['ok']);
+      expect(response.Failed).toEqual([expect.objectContaining({ Id: 'bad', Code: 'InvalidParameterValue' })]);
+    });
+
+    it('should return SQS errors the SDK recognizes', async () => {
+      await expect(client.send(new GetQueueUrlCommand({ QueueName: 'missing' })))
+        .rejects.toMatchObject({ name: 'QueueDoesNotExist', $metadata: expect.objectContaining({ httpStatusCode: 400 }) });
+    });
+  });
+
+  describe('query protocol', () => {
+    it('should handle flattened parameters and answer with XML', async () => {
+      await query({ Action: 'CreateQueue', QueueName: 'orders', 'Attribute.1.Name': 'VisibilityTimeout', 'Attribute.1.Value': '5' });
+      const sent = await query({
+        Action: 'SendMessage',
+        QueueUrl: `${server.getUrl()}/000000000000/orders`,
+        MessageBody: 'hello <world>',
+        'MessageAttribute.1.Name': 'source',
+        'MessageAttribute.1.Value.DataType': 'String',
+        'MessageAttribute.1.Value.StringValue': 'query',
+      });
+      const received = await query({
+        Action: 'ReceiveMessage',
+        'AttributeName.1': 'All',
+        'MessageAttributeName.1': 'All',
+      }, '/000000000000/orders');
+
+      expect(sent.status).toBe(200);
+      expect(sent.body).toMatch(/<SendMessageResponse [^>]*><SendMessageResult><MessageId>[^<]+<\/MessageId>/);
+      expect(received.body).toContain('<Body>hello &#60;world&#62;</Body>');
+      expect(received.body).toContain('<Attribute><Name>ApproximateReceiveCount</Name><Value>1</Value></Attribute>');
+      expect(received.body).toContain(
+        '<MessageAttribute><Name>source</Name><Value><DataType>String</DataType><StringValue>query</StringValue></Value></MessageAttribute>'
+      );
+      expect((await backend.getQueueAttributes({ QueueUrl: 'orders', AttributeNames: ['VisibilityTimeout'] })).Attributes)
+        .toEqual({ VisibilityTimeout: '5' });
+    });
+
+    it('should read batch entries', async () => {
+      await query({ Action: 'CreateQueue', QueueName: 'orders' });
+      const response = await query({
+        Action: 'SendMessageBatch',
+        QueueUrl: 'orders',
+        'SendMessageBatchRequestEntry.1.Id': 'first',
+        'SendMessageBatchRequestEntry.1.MessageBody': 'a',
+        'SendMessageBatchRequestEntry.2.Id': 'second',
+        'SendMessageBatchRequestEntry.2.MessageBody': 'b',
+        'SendMessageBatchRequestEntry.2.DelaySeconds': '2',
+      });
+
+      expect(response.body.match(/<SendMessageBatchResultEntry>/g)).toHaveLength(2);
+      expect((await backend.getQueueAttributes({
+        QueueUrl: 'orders',
+        AttributeNames: ['ApproximateNumberOfMessages', 'ApproximateNumberOfMessagesDelayed'],
+      })).Attributes).toEqual({ ApproximateNumberOfMessages: '1', ApproximateNumberOfMessagesDelayed: '1' });
+    });
+
+    it('should answer with query error codes', async () => {
+      const missing = await query({ Action: 'GetQueueUrl', QueueName: 'missing' });
+      const unknown = await query({ Action: 'TagQueue' });
+
+      expect(missing.status).toBe(400);
+      expect(missing.body).toContain('<Code>AWS.SimpleQueueService.NonExistentQueue</Code>');
+      expect(unknown.body).toContain('<Code>InvalidAction</Code>');
+    });
+  });
+});
+
+describe('getSqsServerUrl', () => {
+  it('should reach wildcard hosts through localhost', () => {
+    expect(getSqsServerUrl({ enabled: true, port: 9324, host: '0.0.0.0' })).toBe('http://localhost:9324');
+    expect(getSqsServerUrl({ enabled: true, port: 9324, host: '::' })).toBe('http://localhost:9324');
+  });
+
+  it('should wrap IPv6 addresses in brackets', () => {
+    expect(getSqsServerUrl({ enabled: true, port: 9324, host: '::1' })).toBe('http://[::1]:9324');
+    expect(getSqsServerUrl({ enabled: true, port: 9324, host: '127.0.0.1' })).toBe('http://127.0.0.1:9324');
+  });
+});